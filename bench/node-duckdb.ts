@@ -0,0 +1,102 @@
+/**
+ * DuckDB-WASM under Node
+ *
+ * The Node bundles of DuckDB-WASM run in a worker thread that talks the Web
+ * Worker protocol (global onmessage/postMessage). A small adapter exposes a
+ * worker_threads Worker to AsyncDuckDB through the Worker interface, so the
+ * same async API and generators as in the browser run unchanged.
+ */
+
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { Worker as ThreadWorker } from 'node:worker_threads';
+import type { TransferListItem } from 'node:worker_threads';
+import { attachDuckDB } from '../src/duckdb';
+
+// Runs in the worker thread before the DuckDB worker script
+const WORKER_BOOTSTRAP = `
+  const { parentPort, workerData } = require('node:worker_threads');
+  globalThis.self = globalThis;
+  globalThis.postMessage = (data, transfer) => parentPort.postMessage(data, transfer);
+  parentPort.on('message', data => globalThis.onmessage?.({ data }));
+  require(workerData.script);
+`;
+
+// INSTALL spatial waits on the download without a timeout of its own, e.g.
+// when offline, so give up after this long
+const SPATIAL_INSTALL_TIMEOUT_MS = 120_000;
+
+/**
+ * Worker interface over a worker_threads worker, as far as AsyncDuckDB uses it
+ */
+class NodeWorkerAdapter extends EventTarget {
+  #thread: ThreadWorker;
+
+  constructor(script: string) {
+    super();
+    this.#thread = new ThreadWorker(WORKER_BOOTSTRAP, { eval: true, workerData: { script } });
+    this.#thread.on('message', data => this.dispatchEvent(new MessageEvent('message', { data })));
+    this.#thread.on('error', error => {
+      this.dispatchEvent(Object.assign(new Event('error'), { error, message: error.message }));
+    });
+    this.#thread.on('exit', () => this.dispatchEvent(new Event('close')));
+  }
+
+  postMessage(message: unknown, transfer: TransferListItem[] = []): void {
+    this.#thread.postMessage(message, transfer);
+  }
+
+  terminate(): void {
+    void this.#thread.terminate();
+  }
+}
+
+/**
+ * Instantiate DuckDB-WASM in a worker thread and make it the app's database
+ *
+ * The spatial extension is downloaded once and then loaded from DuckDB's
+ * extension cache in ~/.duckdb/extensions. Throws if it can't be installed
+ * within SPATIAL_INSTALL_TIMEOUT_MS.
+ */
+export async function initializeNodeDuckDB(): Promise<{
+  db: duckdb.AsyncDuckDB;
+  connection: duckdb.AsyncDuckDBConnection;
+}> {
+  const require = createRequire(import.meta.url);
+  const distDir = dirname(require.resolve('@duckdb/duckdb-wasm'));
+
+  const bundle = await duckdb.selectBundle({
+    mvp: {
+      mainModule: join(distDir, 'duckdb-mvp.wasm'),
+      mainWorker: join(distDir, 'duckdb-node-mvp.worker.cjs')
+    },
+    eh: {
+      mainModule: join(distDir, 'duckdb-eh.wasm'),
+      mainWorker: join(distDir, 'duckdb-node-eh.worker.cjs')
+    }
+  });
+
+  const worker = new NodeWorkerAdapter(bundle.mainWorker!) as unknown as Worker;
+  const database = new duckdb.AsyncDuckDB(new duckdb.VoidLogger(), worker);
+  await database.instantiate(bundle.mainModule, bundle.pthreadWorker);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(
+      `Timed out after ${SPATIAL_INSTALL_TIMEOUT_MS / 1000}s installing the spatial extension. ` +
+      'It is downloaded from extensions.duckdb.org on the first run, so run the benchmark ' +
+      'once with network access to populate ~/.duckdb/extensions.'
+    )), SPATIAL_INSTALL_TIMEOUT_MS);
+  });
+  const result = await Promise.race([attachDuckDB(database), timeout]).finally(() => clearTimeout(timer));
+
+  // Tiles can't be generated without the spatial extension, so fail early
+  try {
+    await result.connection.query('SELECT ST_Point(0, 0)');
+  } catch (error) {
+    throw new Error(`The spatial extension is not available: ${error}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,139 @@
+/**
+ * Benchmark report: per-zoom statistics and JSON/CSV output
+ */
+
+import { getPercentiles } from '../src/statistics';
+import type { Percentiles } from '../src/statistics';
+
+export interface TileSample {
+  generator: string;
+  rtree: boolean;
+  z: number;
+  x: number;
+  y: number;
+  totalTime: number;
+  queryTime: number;
+  tileSize: number;
+  featureCount: number;  // -1 if the generator can't tell
+}
+
+export interface ZoomSummary {
+  generator: string;
+  rtree: boolean;
+  z: number;
+  tiles: number;
+  emptyTiles: number;
+  totalTime: Percentiles;        // ms
+  queryTime: Percentiles;        // ms
+  tileSize: Percentiles;         // bytes
+  featureCount: Percentiles | null;  // null if the generator can't tell
+}
+
+export interface BenchmarkReport {
+  createdAt: string;
+  environment: {
+    duckdbVersion: string;
+    duckdbWasmVersion: string;
+    nodeVersion: string;
+  };
+  dataset: {
+    geometryType: string;
+    featureCount: number;
+    vertices: number;
+    bbox: [number, number, number, number];
+    seed: number;
+  };
+  pyramid: {
+    minZoom: number;
+    maxZoom: number;
+    tilesPerZoom: number;
+  };
+  summaries: ZoomSummary[];
+}
+
+/**
+ * Summarize samples per generator, RTREE setting and zoom, in sample order
+ */
+export function summarizeSamples(samples: TileSample[]): ZoomSummary[] {
+  const groups = new Map<string, TileSample[]>();
+  for (const sample of samples) {
+    const key = `${sample.generator}|${sample.rtree}|${sample.z}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = [];
+      groups.set(key, group);
+    }
+    group.push(sample);
+  }
+
+  return [...groups.values()].map(group => {
+    const { generator, rtree, z } = group[0];
+    const counted = group.filter(sample => sample.featureCount >= 0);
+    return {
+      generator,
+      rtree,
+      z,
+      tiles: group.length,
+      emptyTiles: group.filter(sample => sample.tileSize === 0).length,
+      totalTime: getPercentiles(group.map(sample => sample.totalTime)),
+      queryTime: getPercentiles(group.map(sample => sample.queryTime)),
+      tileSize: getPercentiles(group.map(sample => sample.tileSize)),
+      featureCount: counted.length > 0 ? getPercentiles(counted.map(sample => sample.featureCount)) : null
+    };
+  });
+}
+
+/**
+ * One CSV row per summary, percentiles flattened into columns
+ */
+export function reportToCsv(report: BenchmarkReport): string {
+  const stats = ['p50', 'p95', 'p99', 'max', 'mean'] as const;
+  const measures = ['totalTime', 'queryTime', 'tileSize', 'featureCount'] as const;
+
+  const header = [
+    'generator', 'rtree', 'z', 'tiles', 'emptyTiles',
+    ...measures.flatMap(measure => stats.map(stat => `${measure}_${stat}`))
+  ];
+
+  const rows = report.summaries.map(summary => [
+    summary.generator,
+    summary.rtree,
+    summary.z,
+    summary.tiles,
+    summary.emptyTiles,
+    ...measures.flatMap(measure => stats.map(stat => {
+      const value = summary[measure]?.[stat];
+      return value === undefined ? '' : round(value);
+    }))
+  ]);
+
+  return [header, ...rows].map(row => row.join(',')).join('\n') + '\n';
+}
+
+/**
+ * Human-readable table of p50/p95 total times, one row per generator and zoom
+ */
+export function formatSummaryTable(summaries: ZoomSummary[]): string {
+  const lines = ['generator      rtree  z   tiles  p50 ms   p95 ms   p99 ms   avg KB'];
+  for (const summary of summaries) {
+    lines.push([
+      summary.generator.padEnd(14),
+      String(summary.rtree).padEnd(6),
+      String(summary.z).padEnd(3),
+      String(summary.tiles).padEnd(6),
+      summary.totalTime.p50.toFixed(1).padEnd(8),
+      summary.totalTime.p95.toFixed(1).padEnd(8),
+      summary.totalTime.p99.toFixed(1).padEnd(8),
+      (summary.tileSize.mean / 1024).toFixed(1)
+    ].join(' '));
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
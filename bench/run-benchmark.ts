@@ -0,0 +1,279 @@
+/**
+ * Headless tile generator benchmark
+ *
+ * Runs DuckDB-WASM under Node on a synthetic dataset and generates a fixed
+ * tile pyramid with every registered generator, without and then with an
+ * RTREE index. Writes a JSON and a CSV report with per-zoom percentiles of
+ * generation time, tile sizes and feature counts, so runs can be compared
+ * across DuckDB-WASM upgrades.
+ *
+ * Usage: npm run bench -- [options], see --help
+ */
+
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { initializeNodeDuckDB } from './node-duckdb';
+import { createSyntheticTable, SYNTHETIC_GEOMETRY_TYPES } from './synthetic-data';
+import type { SyntheticGeometryType } from './synthetic-data';
+import { summarizeSamples, reportToCsv, formatSummaryTable } from './report';
+import type { BenchmarkReport, TileSample } from './report';
+import { getTileGenerators, getTileGenerator } from '../src/tile-generators';
+import type { TileGenerator } from '../src/tile-generators';
+import { getTileRange } from '../src/tile-pyramid';
+import type { BBox } from '../src/tile-pyramid';
+import type { TileCoordinates, LayerConfig } from '../src/tile-generation-native';
+
+const TABLE_NAME = 'bench_features';
+const INDEX_NAME = 'bench_features_rtree';
+
+const USAGE = `Usage: npm run bench -- [options]
+
+Options:
+  --geometry <type>       point, line or polygon (default: point)
+  --features <n>          Number of features (default: 100000)
+  --vertices <n>          Vertices per line or polygon (default: 8)
+  --bbox <bbox>           minLng,minLat,maxLng,maxLat of the data (default: 5,45,15,55)
+  --seed <n>              Random seed in [-1, 1] (default: 0.42)
+  --min-zoom <z>          First zoom of the pyramid (default: 4)
+  --max-zoom <z>          Last zoom of the pyramid (default: 12)
+  --tiles-per-zoom <n>    Tiles sampled per zoom (default: 16)
+  --generators <names>    Comma-separated generators (default: all registered)
+  --out <path>            Report path without extension (default: bench-results/<geometry>-<timestamp>)
+  --help                  Show this help
+`;
+
+interface BenchmarkOptions {
+  geometryType: SyntheticGeometryType;
+  featureCount: number;
+  vertices: number;
+  bbox: BBox;
+  seed: number;
+  minZoom: number;
+  maxZoom: number;
+  tilesPerZoom: number;
+  generators: TileGenerator[];
+  out: string;
+}
+
+async function main(): Promise<void> {
+  const options = parseOptions();
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  const { db, connection } = await initializeNodeDuckDB();
+  try {
+    console.log(`Creating ${options.featureCount} synthetic ${options.geometryType} features...`);
+    await createSyntheticTable(connection, {
+      tableName: TABLE_NAME,
+      geometryType: options.geometryType,
+      featureCount: options.featureCount,
+      bbox: options.bbox,
+      vertices: options.vertices,
+      seed: options.seed
+    });
+
+    const pyramid = getPyramidTiles(options);
+    const samples: TileSample[] = [];
+
+    for (const rtree of [false, true]) {
+      if (rtree) {
+        await connection.query(`CREATE INDEX ${INDEX_NAME} ON "${TABLE_NAME}" USING RTREE(geom)`);
+      }
+      for (const generator of options.generators) {
+        console.log(`Generating ${pyramid.length} tiles with ${generator.name}${rtree ? ' (RTREE)' : ''}...`);
+        samples.push(...await runPyramid(connection, generator, pyramid, rtree));
+      }
+      if (rtree) {
+        await connection.query(`DROP INDEX ${INDEX_NAME}`);
+      }
+    }
+
+    const versions = await connection.query('SELECT version() AS version');
+    const report: BenchmarkReport = {
+      createdAt: new Date().toISOString(),
+      environment: {
+        duckdbVersion: String(versions.toArray()[0].version),
+        duckdbWasmVersion: duckdb.PACKAGE_VERSION,
+        nodeVersion: process.version
+      },
+      dataset: {
+        geometryType: options.geometryType,
+        featureCount: options.featureCount,
+        vertices: options.vertices,
+        bbox: options.bbox,
+        seed: options.seed
+      },
+      pyramid: {
+        minZoom: options.minZoom,
+        maxZoom: options.maxZoom,
+        tilesPerZoom: options.tilesPerZoom
+      },
+      summaries: summarizeSamples(samples)
+    };
+
+    await mkdir(dirname(options.out), { recursive: true });
+    await writeFile(`${options.out}.json`, JSON.stringify(report, null, 2));
+    await writeFile(`${options.out}.csv`, reportToCsv(report));
+
+    console.log(`\n${formatSummaryTable(report.summaries)}\n`);
+    console.log(`Report written to ${options.out}.json and ${options.out}.csv`);
+  } finally {
+    await connection.close();
+    await db.terminate();
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parse command line options, or return null if help was requested
+ */
+function parseOptions(): BenchmarkOptions | null {
+  const { values } = parseArgs({
+    options: {
+      'geometry': { type: 'string', default: 'point' },
+      'features': { type: 'string', default: '100000' },
+      'vertices': { type: 'string', default: '8' },
+      'bbox': { type: 'string', default: '5,45,15,55' },
+      'seed': { type: 'string', default: '0.42' },
+      'min-zoom': { type: 'string', default: '4' },
+      'max-zoom': { type: 'string', default: '12' },
+      'tiles-per-zoom': { type: 'string', default: '16' },
+      'generators': { type: 'string' },
+      'out': { type: 'string' },
+      'help': { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    return null;
+  }
+
+  const geometryType = values.geometry as SyntheticGeometryType;
+  if (!SYNTHETIC_GEOMETRY_TYPES.includes(geometryType)) {
+    throw new Error(`Invalid geometry type: ${values.geometry}`);
+  }
+
+  const bbox = values.bbox.split(',').map(Number);
+  if (bbox.length !== 4 || bbox.some(Number.isNaN) || bbox[0] >= bbox[2] || bbox[1] >= bbox[3]) {
+    throw new Error(`Invalid bbox: ${values.bbox}`);
+  }
+
+  const minZoom = parseInteger('min-zoom', values['min-zoom']);
+  const maxZoom = parseInteger('max-zoom', values['max-zoom']);
+  if (maxZoom < minZoom) {
+    throw new Error(`Invalid zoom range: ${minZoom}-${maxZoom}`);
+  }
+
+  const seed = Number(values.seed);
+  if (Number.isNaN(seed) || seed < -1 || seed > 1) {
+    throw new Error(`Invalid seed: ${values.seed}`);
+  }
+
+  const generators = values.generators
+    ? values.generators.split(',').map(name => {
+      const generator = getTileGenerator(name.trim());
+      if (!generator) {
+        throw new Error(`Unknown tile generator: ${name}`);
+      }
+      return generator;
+    })
+    : getTileGenerators();
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  return {
+    geometryType,
+    featureCount: parseInteger('features', values.features),
+    vertices: parseInteger('vertices', values.vertices),
+    bbox: bbox as BBox,
+    seed,
+    minZoom,
+    maxZoom,
+    tilesPerZoom: parseInteger('tiles-per-zoom', values['tiles-per-zoom']),
+    generators,
+    out: values.out ?? `bench-results/${geometryType}-${timestamp}`
+  };
+}
+
+function parseInteger(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * The fixed set of tiles to generate, in zoom order
+ *
+ * Zooms whose tile range over the bbox exceeds tilesPerZoom are sampled at
+ * evenly spaced positions, so the same tiles are picked on every run.
+ */
+function getPyramidTiles(options: BenchmarkOptions): TileCoordinates[] {
+  const tiles: TileCoordinates[] = [];
+
+  for (let z = options.minZoom; z <= options.maxZoom; z++) {
+    const { minX, minY, maxX, maxY } = getTileRange(options.bbox, z);
+    const width = maxX - minX + 1;
+    const count = width * (maxY - minY + 1);
+    const picked = Math.min(count, options.tilesPerZoom);
+
+    for (let i = 0; i < picked; i++) {
+      const index = Math.floor(((i + 0.5) * count) / picked);
+      tiles.push({ z, x: minX + (index % width), y: minY + Math.floor(index / width) });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Generate every tile of the pyramid with a generator
+ *
+ * The first tile is generated once more up front and not recorded, so
+ * one-off costs like loading column types don't skew the lowest zoom.
+ */
+async function runPyramid(
+  conn: duckdb.AsyncDuckDBConnection,
+  generator: TileGenerator,
+  tiles: TileCoordinates[],
+  rtree: boolean
+): Promise<TileSample[]> {
+  const config: LayerConfig = {
+    tableName: TABLE_NAME,
+    geometryColumn: 'geom',
+    propertyColumns: ['category', 'value', 'flag'],
+    idColumn: 'id'
+  };
+
+  if (tiles.length > 0) {
+    await generator.generate(conn, config, tiles[0]);
+  }
+
+  const samples: TileSample[] = [];
+  for (const zxy of tiles) {
+    const { metrics } = await generator.generate(conn, config, zxy);
+    samples.push({
+      generator: generator.name,
+      rtree,
+      ...zxy,
+      totalTime: metrics.totalTime,
+      queryTime: metrics.queryTime,
+      tileSize: metrics.tileSize,
+      featureCount: metrics.featureCount
+    });
+  }
+  return samples;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+/**
+ * Synthetic benchmark datasets
+ *
+ * Generates a table of random features inside a bbox entirely in DuckDB, so
+ * runs need no downloads and are repeatable for a given seed.
+ */
+
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import type { BBox } from '../src/tile-pyramid';
+
+export type SyntheticGeometryType = 'point' | 'line' | 'polygon';
+
+export const SYNTHETIC_GEOMETRY_TYPES: SyntheticGeometryType[] = ['point', 'line', 'polygon'];
+
+export interface SyntheticDatasetOptions {
+  tableName: string;
+  geometryType: SyntheticGeometryType;
+  featureCount: number;
+  bbox: BBox;
+  vertices: number;  // Vertices per line, or per polygon ring
+  seed: number;      // In [-1, 1], see DuckDB's setseed
+}
+
+// Size of lines and polygons, in degrees
+const FEATURE_SIZE = 0.05;
+
+/**
+ * Create (or replace) a synthetic table with columns id, category, value,
+ * flag and geom (EPSG:4326)
+ */
+export async function createSyntheticTable(
+  conn: AsyncDuckDBConnection,
+  options: SyntheticDatasetOptions
+): Promise<void> {
+  const { tableName, featureCount, bbox, seed } = options;
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  const vertices = getVertexCount(options);
+
+  await conn.query(`SELECT setseed(${seed})`);
+  await conn.query(`
+    CREATE OR REPLACE TABLE "${tableName}" AS
+    WITH anchors AS (
+      SELECT
+        i AS id,
+        ${minLng} + random() * ${maxLng - minLng} AS lng,
+        ${minLat} + random() * ${maxLat - minLat} AS lat${options.geometryType === 'polygon' ? `,
+        -- Relative radius of each polygon vertex
+        list_transform(range(${vertices}), j -> 0.5 + random() / 2) AS radii` : ''}
+      FROM range(${featureCount}) t(i)
+    )
+    SELECT
+      id,
+      'category_' || (id % 10) AS category,
+      round(random() * 1000, 2) AS value,
+      id % 2 = 0 AS flag,
+      ${geometrySql(options.geometryType, vertices)} AS geom
+    FROM anchors
+    ORDER BY id
+  `);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getVertexCount(options: SyntheticDatasetOptions): number {
+  return Math.max(options.geometryType === 'polygon' ? 3 : 2, options.vertices);
+}
+
+/**
+ * SQL expression building a geometry around the anchor (lng, lat)
+ */
+function geometrySql(geometryType: SyntheticGeometryType, vertices: number): string {
+  const radius = FEATURE_SIZE / 2;
+
+  switch (geometryType) {
+    case 'point':
+      return 'ST_Point(lng, lat)';
+
+    case 'line':
+      // Random walk starting at the anchor
+      return `ST_MakeLine(list_transform(range(${vertices}), j ->
+        ST_Point(lng + j * ${FEATURE_SIZE / vertices} + random() * ${FEATURE_SIZE / vertices},
+                 lat + (random() - 0.5) * ${FEATURE_SIZE / 2})))`;
+
+    case 'polygon':
+      // Star-shaped ring, so it never self-intersects; the last vertex closes it
+      return `ST_MakePolygon(ST_MakeLine(list_transform(range(${vertices + 1}), j ->
+        ST_Point(lng + radii[j % ${vertices} + 1] * ${radius} * cos(2 * pi() * (j % ${vertices}) / ${vertices}),
+                 lat + radii[j % ${vertices} + 1] * ${radius} * sin(2 * pi() * (j % ${vertices}) / ${vertices})))))`;
+  }
+}
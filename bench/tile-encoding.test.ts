@@ -0,0 +1,331 @@
+/**
+ * Round-trip checks of the hand-written tile encoding
+ *
+ * Geometries are written as WKB, decoded into tile coordinates, encoded as
+ * MVT and read back with @mapbox/vector-tile, so the decoder, the encoder
+ * and the overzoom clipping are checked against an independent reader.
+ *
+ * Usage: npm test
+ */
+
+import { VectorTile } from '@mapbox/vector-tile';
+import type { VectorTileFeature } from '@mapbox/vector-tile';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import Pbf from 'pbf';
+import { encodeMVTLayer } from '../src/mvt-encoder';
+import type { MVTFeature } from '../src/mvt-encoder';
+import { getAncestorTile, overzoomTile } from '../src/tile-overzoom';
+import { decodeWkb } from '../src/wkb';
+import type { TileGeometry } from '../src/wkb';
+
+const EXTENT = 4096;
+
+// Source coordinates are tile coordinates with y pointing up
+const TRANSFORM = { originX: 0, originY: EXTENT, scale: 1 };
+
+type Ring = [number, number][];
+
+const SQUARE: Ring = [[0, 0], [0, 100], [100, 100], [100, 0], [0, 0]];
+const HOLE: Ring = [[25, 25], [75, 25], [75, 75], [25, 75], [25, 25]];
+
+describe('decodeWkb', () => {
+  it('reads points in either byte order with ISO and extended dimension flags', () => {
+    const variants = [
+      new WkbWriter(true).geometry(1, [[10, 20]]),
+      new WkbWriter(false).geometry(1, [[10, 20]]),
+      new WkbWriter(true, { iso: 1000, dimensions: 3 }).geometry(1, [[10, 20]]),
+      new WkbWriter(false, { iso: 3000, dimensions: 4 }).geometry(1, [[10, 20]]),
+      new WkbWriter(true, { flags: 0x80000000 | 0x20000000, dimensions: 3 }).geometry(1, [[10, 20]]),
+      new WkbWriter(false, { flags: 0xc0000000, dimensions: 4 }).geometry(1, [[10, 20]])
+    ];
+
+    for (const wkb of variants) {
+      assert.deepEqual(decodeWkb(wkb, TRANSFORM).points, [10, EXTENT - 20]);
+    }
+  });
+
+  it('skips Z values in nested geometries', () => {
+    const writer = new WkbWriter(true, { iso: 1000, dimensions: 3 });
+    writer.header(7).uint32(2);
+    writer.geometry(1, [[1, 2]]);
+    writer.header(3).uint32(1).ring(SQUARE);
+    const geometry = decodeWkb(writer.toBytes(), TRANSFORM);
+
+    assert.deepEqual(geometry.points, [1, EXTENT - 2]);
+    assert.deepEqual(geometry.polygons, [[flip(SQUARE)]]);
+  });
+
+  it('drops points that round onto their predecessor', () => {
+    const wkb = new WkbWriter(true).geometry(2, [[0, 0], [0.2, 0.2], [10, 0], [10.4, 0]]);
+    assert.deepEqual(decodeWkb(wkb, TRANSFORM).lines, [[0, EXTENT, 10, EXTENT]]);
+  });
+});
+
+describe('encodeMVTLayer', () => {
+  it('round-trips points, lines and properties', () => {
+    const tile = readTile(encodeMVTLayer('layer', [
+      { geometry: geometry({ points: [[1, 2], [3, 4]] }), properties: { name: 'a', n: 1.5, flag: true, none: null }, id: 7 },
+      { geometry: geometry({ lines: [[[0, 0], [10, 0], [10, 10]], [[20, 20], [30, 30]]] }), properties: { name: 'b' } }
+    ]));
+    const layer = tile.layers.layer;
+
+    assert.equal(layer.length, 2);
+    assert.equal(layer.extent, EXTENT);
+
+    const points = layer.feature(0);
+    assert.equal(points.type, 1);
+    assert.equal(points.id, 7);
+    assert.deepEqual({ ...points.properties }, { name: 'a', n: 1.5, flag: true });
+    // The reader returns every point of a multipoint as its own part
+    assert.deepEqual(coordinates(points), [[[1, 2]], [[3, 4]]]);
+
+    const lines = layer.feature(1);
+    assert.equal(lines.type, 2);
+    assert.deepEqual({ ...lines.properties }, { name: 'b' });
+    assert.deepEqual(coordinates(lines), [[[0, 0], [10, 0], [10, 10]], [[20, 20], [30, 30]]]);
+  });
+
+  it('writes exterior rings clockwise and holes counter-clockwise, whatever the source winding', () => {
+    // A counter-clockwise exterior with a clockwise hole in y-up source coordinates
+    // becomes clockwise/counter-clockwise once flipped, so try both windings
+    for (const [exterior, hole] of [[SQUARE, HOLE], [reverse(SQUARE), reverse(HOLE)]]) {
+      const wkb = new WkbWriter(true).header(3).uint32(2).ring(exterior).ring(hole).toBytes();
+      const tile = readTile(encodeMVTLayer('layer', [{ geometry: decodeWkb(wkb, TRANSFORM), properties: {} }]));
+      const feature = tile.layers.layer.feature(0);
+      const rings = coordinates(feature);
+
+      assert.equal(feature.type, 3);
+      assert.equal(rings.length, 2);
+      assert.ok(signedArea(rings[0]) > 0, 'exterior ring must have a positive area');
+      assert.ok(signedArea(rings[1]) < 0, 'hole must have a negative area');
+      assert.deepEqual(sortRing(rings[0]), sortRing(flip(SQUARE)));
+      assert.deepEqual(sortRing(rings[1]), sortRing(flip(HOLE)));
+
+      const geojson = feature.toGeoJSON(0, 0, 0);
+      assert.equal(geojson.geometry.type, 'Polygon');
+    }
+  });
+
+  it('keeps the polygons of a multipolygon in one feature', () => {
+    const writer = new WkbWriter(false).header(6).uint32(2);
+    writer.header(3).uint32(2).ring(SQUARE).ring(HOLE);
+    writer.header(3).uint32(1).ring(SQUARE.map(([x, y]) => [x + 200, y]));
+    const tile = readTile(encodeMVTLayer('layer', [{ geometry: decodeWkb(writer.toBytes(), TRANSFORM), properties: {} }]));
+    const layer = tile.layers.layer;
+
+    assert.equal(layer.length, 1);
+    const geojson = layer.feature(0).toGeoJSON(0, 0, 0);
+    assert.equal(geojson.geometry.type, 'MultiPolygon');
+    assert.equal(geojson.geometry.type === 'MultiPolygon' && geojson.geometry.coordinates.length, 2);
+  });
+
+  it('splits a geometry collection into one feature per geometry type', () => {
+    const writer = new WkbWriter(true).header(7).uint32(3);
+    writer.geometry(1, [[5, 5]]);
+    writer.geometry(2, [[0, 0], [50, 50]]);
+    writer.header(3).uint32(1).ring(SQUARE);
+    const tile = readTile(encodeMVTLayer('layer', [
+      { geometry: decodeWkb(writer.toBytes(), TRANSFORM), properties: { name: 'mixed' }, id: 3 }
+    ]));
+    const layer = tile.layers.layer;
+
+    assert.equal(layer.length, 3);
+    const features = [layer.feature(0), layer.feature(1), layer.feature(2)];
+    assert.deepEqual(features.map(f => f.type), [1, 2, 3]);
+    for (const feature of features) {
+      assert.equal(feature.id, 3);
+      assert.deepEqual({ ...feature.properties }, { name: 'mixed' });
+    }
+    assert.deepEqual(coordinates(features[0]), [[[5, EXTENT - 5]]]);
+  });
+
+  it('returns an empty tile without features', () => {
+    assert.equal(encodeMVTLayer('layer', []).length, 0);
+  });
+});
+
+describe('overzoomTile', () => {
+  const ancestor = { z: 0, x: 0, y: 0 };
+  const child = { z: 1, x: 1, y: 0 };
+  const buffer = 256;
+
+  const features: MVTFeature[] = [
+    // Inside the child (the top-right quadrant) and outside it
+    { geometry: geometry({ points: [[3072, 1024]] }), properties: { kind: 'in' }, id: 1 },
+    { geometry: geometry({ points: [[1024, 3072]] }), properties: { kind: 'out' }, id: 2 },
+    // A line across the whole ancestor
+    { geometry: geometry({ lines: [[[0, 1024], [4096, 1024]]] }), properties: { kind: 'line' }, id: 3 },
+    // A polygon with a hole, straddling the child's left edge
+    {
+      geometry: geometry({ polygons: [[
+        [[1024, 512], [3072, 512], [3072, 1536], [1024, 1536], [1024, 512]],
+        [[1536, 768], [1536, 1280], [2560, 1280], [2560, 768], [1536, 768]]
+      ]] }),
+      properties: { kind: 'polygon' },
+      id: 4
+    }
+  ];
+
+  it('gets the ancestor of a tile', () => {
+    assert.deepEqual(getAncestorTile({ z: 5, x: 19, y: 7 }, 3), { z: 3, x: 4, y: 1 });
+  });
+
+  it('scales up and clips features to the child tile plus a buffer', () => {
+    const tile = readTile(overzoomTile(encodeMVTLayer('layer', features), ancestor, child));
+    const layer = tile.layers.layer;
+    const byKind = new Map<unknown, VectorTileFeature>();
+    for (let i = 0; i < layer.length; i++) {
+      byKind.set(layer.feature(i).properties.kind, layer.feature(i));
+    }
+
+    assert.deepEqual([...byKind.keys()].sort(), ['in', 'line', 'polygon']);
+
+    const point = byKind.get('in')!;
+    assert.equal(point.id, 1);
+    assert.deepEqual(coordinates(point), [[[2048, 2048]]]);
+
+    assert.deepEqual(coordinates(byKind.get('line')!), [[[-buffer, 2048], [EXTENT, 2048]]]);
+
+    const polygon = byKind.get('polygon')!;
+    const rings = coordinates(polygon);
+    assert.equal(polygon.id, 4);
+    assert.equal(rings.length, 2);
+    assert.ok(signedArea(rings[0]) > 0, 'exterior ring must have a positive area');
+    assert.ok(signedArea(rings[1]) < 0, 'hole must have a negative area');
+    for (const [x, y] of rings.flat()) {
+      assert.ok(x >= -buffer && x <= EXTENT + buffer && y >= -buffer && y <= EXTENT + buffer);
+    }
+    assert.deepEqual(bounds(rings[0]), [-buffer, 1024, 2048, 3072]);
+    assert.deepEqual(bounds(rings[1]), [-buffer, 1536, 1024, 2560]);
+  });
+
+  it('returns an empty tile if no feature intersects the child', () => {
+    const empty = overzoomTile(encodeMVTLayer('layer', [features[1]]), ancestor, child);
+    assert.equal(empty.length, 0);
+  });
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+interface DimensionOptions {
+  iso?: number;     // Added to the type code, e.g. 1000 for Z
+  flags?: number;   // Extended WKB flags
+  dimensions?: number;
+}
+
+/**
+ * Minimal WKB writer; every nested geometry gets the same dimension encoding
+ */
+class WkbWriter {
+  private bytes: number[] = [];
+  private littleEndian: boolean;
+  private options: DimensionOptions;
+
+  constructor(littleEndian: boolean, options: DimensionOptions = {}) {
+    this.littleEndian = littleEndian;
+    this.options = options;
+  }
+
+  header(type: number): this {
+    const { iso = 0, flags = 0 } = this.options;
+    this.bytes.push(this.littleEndian ? 1 : 0);
+    this.uint32(((type + iso) | flags) >>> 0);
+    // The SRID follows the type
+    if (flags & 0x20000000) this.uint32(4326);
+    return this;
+  }
+
+  uint32(value: number): this {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setUint32(0, value, this.littleEndian);
+    this.bytes.push(...new Uint8Array(view.buffer));
+    return this;
+  }
+
+  ring(points: number[][]): this {
+    return this.uint32(points.length).coordinates(points);
+  }
+
+  // A point, or a linestring with its point count
+  geometry(type: 1 | 2, points: number[][]): Uint8Array {
+    this.header(type);
+    if (type === 2) this.uint32(points.length);
+    return this.coordinates(points).toBytes();
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  private coordinates(points: number[][]): this {
+    const dimensions = this.options.dimensions ?? 2;
+    const view = new DataView(new ArrayBuffer(dimensions * 8));
+    for (const [x, y] of points) {
+      view.setFloat64(0, x, this.littleEndian);
+      view.setFloat64(8, y, this.littleEndian);
+      // Z and M values the decoder must skip
+      for (let i = 2; i < dimensions; i++) view.setFloat64(i * 8, 999, this.littleEndian);
+      this.bytes.push(...new Uint8Array(view.buffer));
+    }
+    return this;
+  }
+}
+
+function geometry(parts: { points?: Ring; lines?: Ring[]; polygons?: Ring[][] }): TileGeometry {
+  return {
+    points: (parts.points ?? []).flat(),
+    lines: (parts.lines ?? []).map(line => line.flat()),
+    polygons: (parts.polygons ?? []).map(rings => rings.map(ring => ring.flat()))
+  };
+}
+
+function readTile(data: Uint8Array): VectorTile {
+  return new VectorTile(new Pbf(data));
+}
+
+// Rings read back without their closing point, as ClosePath implies it
+function coordinates(feature: VectorTileFeature): Ring[] {
+  return feature.loadGeometry().map(ring => {
+    const points = ring.map((p): [number, number] => [p.x, p.y]);
+    const [first, last] = [points[0], points[points.length - 1]];
+    if (feature.type === 3 && points.length > 1 && first[0] === last[0] && first[1] === last[1]) {
+      points.pop();
+    }
+    return points;
+  });
+}
+
+// Source ring to flat tile coordinates, as decodeWkb returns it
+function flip(ring: Ring): number[] {
+  return ring.flatMap(([x, y]) => [x, EXTENT - y]);
+}
+
+function reverse(ring: Ring): Ring {
+  return [...ring].reverse();
+}
+
+// Distinct points of a ring in a fixed order, to compare rings regardless of start and winding
+function sortRing(ring: Ring | number[]): string[] {
+  const points = typeof ring[0] === 'number'
+    ? (ring as number[]).flatMap((value, i, flat) => i % 2 === 0 ? [`${value},${flat[i + 1]}`] : [])
+    : (ring as Ring).map(([x, y]) => `${x},${y}`);
+  return [...new Set(points)].sort();
+}
+
+// Positive for clockwise rings when y points down, as in the MVT spec
+function signedArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return sum;
+}
+
+function bounds(ring: Ring): [number, number, number, number] {
+  const xs = ring.map(([x]) => x);
+  const ys = ring.map(([, y]) => y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
@@ -0,0 +1,31 @@
+/**
+ * Compression and hashing of binary data, shared by the tile caches and exports
+ */
+
+/**
+ * Gzip-compress data with the platform's CompressionStream
+ */
+export async function gzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * SHA-256 digest of data, or of text encoded as UTF-8, as a hex string
+ */
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Lowercase hex encoding of data
+ */
+export function toHex(data: Uint8Array): string {
+  let hex = '';
+  for (const byte of data) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
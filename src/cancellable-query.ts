@@ -0,0 +1,102 @@
+/**
+ * Cancellable query execution for DuckDB-WASM
+ *
+ * conn.query() runs to completion inside the worker and cannot be
+ * interrupted. conn.send() instead starts a pending query that is polled
+ * in chunks, and conn.cancelSent() interrupts it between polls.
+ */
+
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import { Table } from 'apache-arrow';
+import type { RecordBatch } from 'apache-arrow';
+
+/**
+ * Create the error thrown when a query is cancelled through its signal
+ */
+export function createAbortError(): Error {
+  return new DOMException('Tile query was cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Run a query that is cancelled when the signal aborts
+ *
+ * Without a signal this is equivalent to conn.query(sql).toArray().
+ * See runCancellableQueryTable for how cancellation works.
+ *
+ * @param conn - Active DuckDB connection
+ * @param sql - Query to run
+ * @param signal - Abort signal, e.g. from MapLibre's tile request
+ * @returns Result rows
+ */
+export async function runCancellableQuery(
+  conn: AsyncDuckDBConnection,
+  sql: string,
+  signal?: AbortSignal
+): Promise<any[]> {
+  return (await runCancellableQueryTable(conn, sql, signal)).toArray();
+}
+
+/**
+ * Run a query that is cancelled when the signal aborts, keeping the Arrow result
+ *
+ * Without a signal this is equivalent to conn.query(sql).
+ * When the signal aborts, the running query is cancelled on the connection
+ * and an AbortError is thrown once the connection is idle again, so it is
+ * safe to reuse.
+ *
+ * @param conn - Active DuckDB connection
+ * @param sql - Query to run
+ * @param signal - Abort signal, e.g. from MapLibre's tile request
+ * @returns Result table
+ */
+export async function runCancellableQueryTable(
+  conn: AsyncDuckDBConnection,
+  sql: string,
+  signal?: AbortSignal
+): Promise<Table> {
+  if (!signal) {
+    return conn.query(sql);
+  }
+
+  if (signal.aborted) {
+    throw createAbortError();
+  }
+
+  let cancelling: Promise<boolean> | null = null;
+  const onAbort = () => {
+    cancelling = conn.cancelSent();
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const reader = await conn.send(sql, true);
+    const batches: RecordBatch[] = [];
+
+    for await (const batch of reader) {
+      if (signal.aborted) break;
+      batches.push(batch);
+    }
+
+    if (signal.aborted) {
+      throw createAbortError();
+    }
+    return new Table(reader.schema, batches);
+
+  } catch (error) {
+    // The cancelled query surfaces as a DuckDB error; report it as an abort
+    if (signal.aborted) {
+      throw createAbortError();
+    }
+    throw error;
+
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+    if (cancelling) {
+      await (cancelling as Promise<boolean>).catch(() => false);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Server-side point clustering
+ *
+ * Below a configurable zoom, point layers are aggregated in SQL instead of
+ * shipping every point: the points of a tile are grouped into square grid
+ * cells in tile pixel space, and each cell becomes one feature at the mean
+ * position of its points, with a `point_count` and optional aggregates.
+ * Both generators share the aggregation SQL and only differ in encoding.
+ */
+
+import { DEFAULT_CRS, getMercatorTileBounds, transformSql } from './crs';
+import type { PropertyColumn } from './property-encoding';
+
+// Size of a vector tile on screen, which the cluster radius is relative to
+export const TILE_SIZE_PIXELS = 512;
+
+export interface ClusterAggregate {
+  name: string;    // Property name of the aggregate in the tile
+  op: 'sum' | 'avg' | 'min' | 'max';
+  column: string;  // Numeric column to aggregate
+}
+
+export interface ClusterOptions {
+  maxZoom: number;       // Points are clustered at zooms below this
+  radius?: number;       // Grid cell size in pixels (defaults to 50)
+  aggregates?: ClusterAggregate[];
+}
+
+/**
+ * Layer configuration fields the clustering query depends on
+ */
+export interface ClusterLayerConfig {
+  tableName: string;
+  geometryColumn: string;
+  schema?: string;
+  sourceCrs?: string;
+  mercatorGeometryColumn?: string;
+  filter?: string;
+  cluster?: ClusterOptions;
+}
+
+/**
+ * Whether tiles of a layer are clustered at a zoom level
+ */
+export function isClusterZoom(config: ClusterLayerConfig, z: number): boolean {
+  return config.cluster !== undefined && z < config.cluster.maxZoom;
+}
+
+/**
+ * Properties of cluster features, for encoding and metadata
+ */
+export function getClusterPropertyColumns(options: ClusterOptions): PropertyColumn[] {
+  return [
+    { name: 'point_count', kind: 'integer' },
+    ...(options.aggregates ?? []).map(agg => ({ name: agg.name, kind: 'double' as const }))
+  ];
+}
+
+/**
+ * SQL query returning one row per cluster of a tile
+ *
+ * Columns: `x` and `y` (cluster position in EPSG:3857), `point_count`, and
+ * one column per aggregate.
+ */
+export function generateClusterQuery(
+  config: ClusterLayerConfig,
+  zxy: { z: number; x: number; y: number }
+): string {
+  const options = config.cluster;
+  if (!options) {
+    throw new Error(`Layer ${config.tableName} has no cluster options`);
+  }
+
+  const { tableName, geometryColumn, schema } = config;
+  const { z, x, y } = zxy;
+  const fullTableName = schema ? `"${schema}"."${tableName}"` : `"${tableName}"`;
+  const sourceCrs = config.sourceCrs ?? DEFAULT_CRS;
+
+  const projectedGeometry = config.mercatorGeometryColumn
+    ? `"${config.mercatorGeometryColumn}"`
+    : transformSql(`"${geometryColumn}"`, sourceCrs, 'EPSG:3857');
+
+  // Cells are aligned with the tile, so no cluster spans two tiles
+  const tile = getMercatorTileBounds(z, x, y);
+  const cellSize = (tile.width * (options.radius ?? 50)) / TILE_SIZE_PIXELS;
+
+  const aggregates = options.aggregates ?? [];
+  const aggregateColumns = aggregates.map(agg => `, "${agg.column}"`).join('');
+  const aggregateSelection = aggregates
+    .map(agg => `,\n        CAST(${agg.op.toUpperCase()}("${agg.column}") AS DOUBLE) AS "${agg.name}"`)
+    .join('');
+
+  return `
+    WITH points AS (
+      SELECT
+        ST_X(ST_Centroid(${projectedGeometry})) AS px,
+        ST_Y(ST_Centroid(${projectedGeometry})) AS py
+        ${aggregateColumns}
+      FROM ${fullTableName}
+      WHERE "${geometryColumn}" IS NOT NULL
+        AND ST_Intersects(${projectedGeometry}, ST_TileEnvelope(${z}, ${x}, ${y}))${config.filter ? `
+        AND (${config.filter})` : ''}
+    )
+    SELECT
+        AVG(px) AS x,
+        AVG(py) AS y,
+        COUNT(*) AS point_count${aggregateSelection}
+    FROM points
+    -- Half-open tile bounds, so points on a tile edge are counted once
+    WHERE px >= ${tile.minX} AND px < ${tile.maxX}
+      AND py > ${tile.minY} AND py <= ${tile.maxY}
+    GROUP BY
+        FLOOR((px - ${tile.minX}) / ${cellSize}),
+        FLOOR((${tile.maxY} - py) / ${cellSize})
+  `;
+}
@@ -0,0 +1,190 @@
+/**
+ * Worker pool for the client-side conversion stage
+ *
+ * Tiles are converted by a small pool of dedicated workers so that parsing
+ * and encoding don't block the main thread while panning. Query results
+ * are handed over as Arrow IPC buffers, which are transferred rather than
+ * copied, and the encoded tile is transferred back.
+ *
+ * Where Web Workers are unavailable (e.g. under Node) or the pool size is
+ * 0, conversion runs inline.
+ */
+
+import { createAbortError } from './cancellable-query';
+import { convertGeoJSONTile } from './geojson-conversion';
+import type { ConversionRequest, ConversionResult } from './geojson-conversion';
+
+export interface PooledConversionResult extends ConversionResult {
+  workerQueueTime?: number;  // Waiting for an idle worker (undefined when run inline)
+  workerTime?: number;       // From posting the request to receiving the tile, incl. transfer
+}
+
+interface ConversionTask {
+  request: ConversionRequest;
+  enqueuedAt: number;
+  resolve: (result: PooledConversionResult) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  task: ConversionTask | null;
+  taskId: number;
+  startedAt: number;
+}
+
+const workerPool = {
+  // Leave a core for the main thread and DuckDB's worker
+  size: Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 2)),
+  workers: [] as PooledWorker[],
+  queue: [] as ConversionTask[],
+  nextTaskId: 0
+};
+
+/**
+ * Convert a tile in the worker pool
+ *
+ * The request's row buffers are transferred to the worker and can't be
+ * used by the caller afterwards.
+ *
+ * @param signal - Stops waiting for a worker when aborted (rejects with an AbortError)
+ */
+export function convertInWorker(request: ConversionRequest, signal?: AbortSignal): Promise<PooledConversionResult> {
+  if (typeof Worker === 'undefined' || workerPool.size === 0) {
+    return Promise.resolve(convertGeoJSONTile(request));
+  }
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const task: ConversionTask = { request, enqueuedAt: performance.now(), resolve, reject, signal };
+
+    // Once running, a conversion finishes anyway; only queued tasks are dropped
+    if (signal) {
+      task.onAbort = () => {
+        const index = workerPool.queue.indexOf(task);
+        if (index >= 0) {
+          workerPool.queue.splice(index, 1);
+          reject(createAbortError());
+        }
+      };
+      signal.addEventListener('abort', task.onAbort, { once: true });
+    }
+
+    workerPool.queue.push(task);
+    dispatchTasks();
+  });
+}
+
+/**
+ * Set the number of conversion workers (0 converts on the main thread)
+ */
+export function setConversionWorkerCount(size: number): void {
+  if (size < 0) {
+    throw new Error(`Invalid conversion worker count: ${size}`);
+  }
+  workerPool.size = size;
+
+  // Stop idle workers above the new size; busy ones stop after their task
+  for (const pooled of workerPool.workers.filter(pooled => !pooled.task)) {
+    if (workerPool.workers.length <= size) break;
+    terminateWorker(pooled);
+  }
+
+  if (size === 0) {
+    // Nothing will pick up queued tasks any more, so convert them here
+    for (const task of workerPool.queue.splice(0)) {
+      detachSignal(task);
+      task.resolve(convertGeoJSONTile(task.request));
+    }
+    return;
+  }
+  dispatchTasks();
+}
+
+export function getConversionWorkerStats(): { size: number; workers: number; busy: number; queued: number } {
+  return {
+    size: workerPool.size,
+    workers: workerPool.workers.length,
+    busy: workerPool.workers.filter(pooled => pooled.task).length,
+    queued: workerPool.queue.length
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function dispatchTasks(): void {
+  while (workerPool.queue.length > 0) {
+    let pooled = workerPool.workers.find(candidate => !candidate.task);
+    if (!pooled) {
+      if (workerPool.workers.length >= workerPool.size) return;
+      pooled = startWorker();
+    }
+    runTask(pooled, workerPool.queue.shift()!);
+  }
+}
+
+function startWorker(): PooledWorker {
+  const worker = new Worker(new URL('./tile-conversion.worker.ts', import.meta.url), { type: 'module' });
+  const pooled: PooledWorker = { worker, task: null, taskId: -1, startedAt: 0 };
+
+  worker.addEventListener('message', (event: MessageEvent<{ id: number; result?: ConversionResult; error?: string }>) => {
+    const { id, result, error } = event.data;
+    const task = pooled.task;
+    if (!task || id !== pooled.taskId) return;
+
+    pooled.task = null;
+    if (result) {
+      task.resolve({
+        ...result,
+        workerQueueTime: pooled.startedAt - task.enqueuedAt,
+        workerTime: performance.now() - pooled.startedAt
+      });
+    } else {
+      task.reject(new Error(`Tile conversion failed: ${error}`));
+    }
+
+    if (workerPool.workers.length > workerPool.size) {
+      terminateWorker(pooled);
+    }
+    dispatchTasks();
+  });
+
+  // A crashed worker fails its task and is replaced on the next dispatch
+  worker.addEventListener('error', event => {
+    console.error('Tile conversion worker failed:', event.message);
+    pooled.task?.reject(new Error(`Tile conversion worker failed: ${event.message}`));
+    terminateWorker(pooled);
+    dispatchTasks();
+  });
+
+  workerPool.workers.push(pooled);
+  return pooled;
+}
+
+function runTask(pooled: PooledWorker, task: ConversionTask): void {
+  detachSignal(task);
+  pooled.task = task;
+  pooled.taskId = workerPool.nextTaskId++;
+  pooled.startedAt = performance.now();
+
+  const transfer = task.request.layers.map(layer => layer.rows.buffer);
+  pooled.worker.postMessage({ id: pooled.taskId, request: task.request }, transfer);
+}
+
+function detachSignal(task: ConversionTask): void {
+  if (task.signal && task.onAbort) {
+    task.signal.removeEventListener('abort', task.onAbort);
+  }
+}
+
+function terminateWorker(pooled: PooledWorker): void {
+  pooled.worker.terminate();
+  pooled.task = null;
+  workerPool.workers.splice(workerPool.workers.indexOf(pooled), 1);
+}
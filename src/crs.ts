@@ -0,0 +1,76 @@
+/**
+ * Coordinate reference system helpers
+ *
+ * Source geometries may be in any CRS that PROJ knows. Tiles are always
+ * built in Web Mercator (EPSG:3857), and GeoJSON is always WGS84 lon/lat.
+ */
+
+export const DEFAULT_CRS = 'EPSG:4326';
+
+// Meters per degree of longitude at the equator, to convert degree tolerances
+export const METERS_PER_DEGREE = 111319.49;
+
+// Half the width of the Web Mercator world in meters
+const WEB_MERCATOR_EXTENT = 20037508.342789244;
+
+/**
+ * Normalize a CRS identifier to AUTHORITY:CODE form
+ */
+export function normalizeCrs(crs: string): string {
+  const trimmed = crs.trim();
+  const match = trimmed.match(/^([A-Za-z]+):+(\w+)$/);
+  return match ? `${match[1].toUpperCase()}:${match[2]}` : trimmed;
+}
+
+/**
+ * Web Mercator needs no transform for tiling
+ */
+export function isWebMercator(crs: string): boolean {
+  return ['EPSG:3857', 'EPSG:900913', 'EPSG:3785'].includes(normalizeCrs(crs));
+}
+
+/**
+ * WGS84 lon/lat, where simplification tolerances are in degrees
+ */
+export function isWGS84(crs: string): boolean {
+  return ['EPSG:4326', 'OGC:CRS84'].includes(normalizeCrs(crs));
+}
+
+/**
+ * Wrap a geometry SQL expression in ST_Transform, unless both CRSs are the same
+ *
+ * always_xy=true forces lon,lat order for geographic CRSs.
+ */
+export function transformSql(expression: string, fromCrs: string, toCrs: string): string {
+  const from = normalizeCrs(fromCrs);
+  const to = normalizeCrs(toCrs);
+  if (from === to || (isWebMercator(from) && isWebMercator(to)) || (isWGS84(from) && isWGS84(to))) {
+    return expression;
+  }
+  return `ST_Transform(${expression}, '${from.replace(/'/g, "''")}', '${to.replace(/'/g, "''")}', true)`;
+}
+
+/**
+ * Bounds of a tile in EPSG:3857 meters
+ */
+export function getMercatorTileBounds(
+  z: number,
+  x: number,
+  y: number
+): { minX: number; minY: number; maxX: number; maxY: number; width: number } {
+  const width = (2 * WEB_MERCATOR_EXTENT) / 2 ** z;
+  const minX = -WEB_MERCATOR_EXTENT + x * width;
+  const maxY = WEB_MERCATOR_EXTENT - y * width;
+  return { minX, minY: maxY - width, maxX: minX + width, maxY, width };
+}
+
+/**
+ * Extract an AUTHORITY:CODE identifier from a PROJJSON object
+ */
+export function crsFromProjJson(projjson: any): string | null {
+  const id = projjson?.id;
+  if (id?.authority && id?.code !== undefined) {
+    return normalizeCrs(`${id.authority}:${id.code}`);
+  }
+  return null;
+}
@@ -1,37 +1,116 @@
 import maplibregl from 'maplibre-gl';
 import { performanceTracker } from './performance-tracker';
-import { generateMVTFromGeoJSON } from './tile-generation-geojson';
-import { generateMVTNative } from './tile-generation-native';
-import { createConnection } from './duckdb';
-import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import type { TileMetrics } from './performance-tracker';
+import { acquireConnection, releaseConnection } from './duckdb';
+import { TileCache } from './tile-cache';
+import { isAbortError } from './cancellable-query';
+import {
+  buildPersistentTileKey,
+  getPersistedTile,
+  putPersistedTile,
+  forgetTableFingerprint,
+  purgePersistentTileCache
+} from './persistent-tile-cache';
+import { forgetPropertyTypes } from './property-encoding';
+import { getAncestorTile, overzoomTile } from './tile-overzoom';
+import { buildTileJSON } from './tilejson';
+import { isCrossCheckEnabled, scheduleCrossCheck } from './tile-cross-check';
+import { getTileGenerator, concatenateTiles } from './tile-generators';
+import type { TileGenerator } from './tile-generators';
 import type { TileCoordinates, LayerConfig } from './tile-generation-geojson';
+import type { ClusterOptions } from './clustering';
+import type { GridAggregationOptions } from './grid-aggregation';
 
 export interface DuckDBLayerConfig {
   tableName: string;
   geometryColumn: string;
   propertyColumns: string[];
   schema?: string;
+  alias?: string;  // Source-layer name when used in a layer group (defaults to tableName)
+  sourceCrs?: string;  // CRS of the geometry column (defaults to EPSG:4326)
+  mercatorGeometryColumn?: string;  // Pre-projected EPSG:3857 column, see prepareLayerForTiling
+  filter?: string;  // SQL expression applied when querying tiles, e.g. "population > 100000"
+  idColumn?: string;  // Integer column encoded as the MVT feature id
+  cluster?: ClusterOptions;  // Aggregate points into clusters at low zooms
+  grid?: GridAggregationOptions;  // Serve aggregated bins instead of features (grid layer)
+  maxDataZoom?: number;  // Tiles above this zoom are cut from cached ancestor tiles
+  generator?: string;  // Name of a registered tile generator (defaults to the default generator)
+}
+
+export interface DuckDBLayerGroupConfig {
+  layers: DuckDBLayerConfig[];
 }
 
 const activeConfigs = new Map<string, DuckDBLayerConfig>();
+const activeGroups = new Map<string, DuckDBLayerGroupConfig>();
+
+// Part of the persistent cache key; bump when the tile encoding changes so
+// that tiles persisted by older versions are not served
+const TILE_ENCODING_VERSION = 2;
+
+// Generator of layers that don't name one
+let defaultGenerator = 'native';
+
+// Generated tiles keyed by config id, generation method and z/x/y (64MB default)
+const tileCache = new TileCache(64 * 1024 * 1024);
+let tileCacheEnabled = true;
+// Ancestors of overzoomed tiles, kept while tileCache is disabled
+const ancestorTileCache = new TileCache(16 * 1024 * 1024);
+// Ancestor loads in flight, shared by all overzoomed tiles cut from them
+const ancestorLoads = new Map<string, Promise<Uint8Array>>();
+// Tiles are also persisted in IndexedDB so they survive reloads
+let persistentTileCacheEnabled = true;
 
-// Global flag to switch between MVT generation methods (default to native)
-let useNativeMVT = true;
+/**
+ * Set the generator used by layers that don't name one
+ */
+export function setDefaultTileGenerator(name: string): void {
+  const generator = getTileGenerator(name);
+  if (!generator) {
+    throw new Error(`Unknown tile generator: ${name}`);
+  }
+  defaultGenerator = name;
+  console.log(`Default tile generator switched to: ${generator.title}`);
+}
 
-export function setMVTMethod(native: boolean): void {
-  useNativeMVT = native;
-  console.log(`MVT generation method switched to: ${native ? 'Native ST_AsMVT' : 'GeoJSON + geojson-vt'}`);
+export function getDefaultTileGenerator(): string {
+  return defaultGenerator;
 }
 
-export function getMVTMethod(): boolean {
-  return useNativeMVT;
+/**
+ * The layers making up the tiles of a layer or layer group, with the
+ * generator of each
+ */
+interface TileSource {
+  configId: string;
+  layerConfigs: LayerConfig[];
+  generators: TileGenerator[];
+  method: string;  // Generator name of each layer, part of the cache keys
+  label: string;   // Generator labels, shown in metrics
 }
 
 /**
  * Initialize DuckDB protocol handler for MapLibre
  */
 export function initializeDuckDBProtocol(): void {
-  maplibregl.addProtocol('duckdb', async (params) => {
+  maplibregl.addProtocol('duckdb', async (params, abortController) => {
+    // TileJSON: duckdb://config_id/tilejson.json
+    // Errors are thrown so that MapLibre reports the source as failed
+    const tileJSONMatch = params.url.match(/^duckdb:\/\/([^/]+)\/tilejson\.json$/);
+    if (tileJSONMatch) {
+      const configId = tileJSONMatch[1];
+      const layerConfigs = resolveLayerConfigs(configId);
+      if (!layerConfigs) {
+        throw new Error(`No configuration found for: ${configId}`);
+      }
+      return { data: await buildTileJSON(configId, layerConfigs) };
+    }
+
+    // MapLibre aborts requests for tiles that are no longer needed (e.g. after zooming)
+    const signal = abortController.signal;
+    const requestStartTime = performance.now();
+    let tile: TileMetricFields | null = null;
+
     try {
       // Parse URL: duckdb://config_id/{z}/{x}/{y}.pbf
       const url = params.url;
@@ -49,112 +128,525 @@ export function initializeDuckDBProtocol(): void {
         y: parseInt(y)
       };
 
-      // Get configuration for this layer
-      const config = activeConfigs.get(configId);
-      if (!config) {
+      // Get configuration for this layer or layer group
+      const source = resolveTileSource(configId);
+      if (!source) {
         console.error(`No configuration found for: ${configId}`);
         return { data: new Uint8Array() };
       }
 
-      // Create a new connection with spatial extension loaded
-      let conn: AsyncDuckDBConnection | null = null;
-      const connStartTime = performance.now();
+      tile = getTileMetricFields(source, zxy);
 
-      try {
-        conn = await createConnection();
-        if (!conn) {
-          console.error('Failed to create connection for tile query');
-          return { data: new Uint8Array() };
-        }
-        const connectionTime = performance.now() - connStartTime;
-
-        // Convert config to LayerConfig format
-        const layerConfig: LayerConfig = {
-          tableName: config.tableName,
-          geometryColumn: config.geometryColumn,
-          propertyColumns: config.propertyColumns,
-          schema: config.schema
-        };
-
-        const tileId = `${zxy.z}/${zxy.x}/${zxy.y}`;
-
-        // Use native MVT or GeoJSON method based on flag
-        if (useNativeMVT) {
-          // Use native ST_AsMVT method
-          const result = await generateMVTNative(conn, layerConfig, zxy);
-
-          console.log(`📊 Native MVT Tile ${tileId}:`, {
-            connection: `${connectionTime.toFixed(2)}ms`,
-            query: `${result.metrics.queryTime.toFixed(2)}ms`,
-            total: `${(connectionTime + result.metrics.totalTime).toFixed(2)}ms`,
-            tileSize: `${(result.metrics.tileSize / 1024).toFixed(2)}KB`
-          });
+      const maxDataZoom = getMaxDataZoom(configId);
+      if (maxDataZoom !== undefined && zxy.z > maxDataZoom) {
+        return { data: await overzoom(source, zxy, maxDataZoom, signal) };
+      }
 
-          // Track metrics in UI
+      const data = await loadTile(source, zxy, signal);
+      if (isCrossCheckEnabled()) {
+        scheduleCrossCheck(configId, source.layerConfigs, zxy);
+      }
+      return { data };
+
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Record the cancellation separately so it doesn't count as a fast empty tile
+        if (tile) {
           performanceTracker.addMetric({
-            tileId: `[Native] ${tileId}`,
-            fetchTime: connectionTime + result.metrics.queryTime,
+            ...tile,
+            queueTime: 0,
+            fetchTime: 0,
             convertTime: 0,
-            totalTime: connectionTime + result.metrics.totalTime,
+            totalTime: performance.now() - requestStartTime,
             features: -1,
-            tileSize: result.metrics.tileSize,
-            timestamp: Date.now()
+            tileSize: 0,
+            timestamp: Date.now(),
+            outcome: 'cancelled'
           });
+        }
+        console.log(`🚫 Cancelled tile ${tile ? `[${tile.method}] ${tile.tileId}` : params.url}`);
+        return { data: new Uint8Array() };
+      }
 
-          return { data: result.data };
+      console.error('Error in DuckDB protocol handler:', error);
+      return { data: new Uint8Array() };
+    }
+  });
 
-        } else {
-          // Use GeoJSON + geojson-vt method
-          const result = await generateMVTFromGeoJSON(conn, layerConfig, zxy);
+  console.log('DuckDB protocol registered for MapLibre');
+}
 
-          console.log(`📊 GeoJSON Tile ${tileId}:`, {
-            connection: `${connectionTime.toFixed(2)}ms`,
-            query: `${result.metrics.queryTime.toFixed(2)}ms`,
-            parse: `${result.metrics.parseTime.toFixed(2)}ms`,
-            convert: `${result.metrics.convertTime.toFixed(2)}ms`,
-            total: `${(connectionTime + result.metrics.totalTime).toFixed(2)}ms`,
-            features: result.metrics.featureCount,
-            tileSize: `${(result.metrics.tileSize / 1024).toFixed(2)}KB`
-          });
+/**
+ * Serve a tile from the in-memory or persistent cache, or generate it
+ *
+ * Records the tile's metric (unless recordMetric is false) and caches
+ * generated tiles. The returned buffer is never the cached copy, so it can
+ * be handed to MapLibre.
+ */
+async function loadTile(
+  source: TileSource,
+  zxy: TileCoordinates,
+  signal: AbortSignal,
+  recordMetric = true
+): Promise<Uint8Array> {
+  const { configId, layerConfigs, generators, method } = source;
+  const tile = getTileMetricFields(source, zxy);
+  const { tileId } = tile;
+  const cacheKey = `${configId}:${method}:${tileId}`;
+  const cacheGeneration = tileCache.getGeneration(configId);
 
-          // Track metrics in UI
-          performanceTracker.addMetric({
-            tileId: `[GeoJSON] ${tileId}`,
-            fetchTime: connectionTime + result.metrics.queryTime + result.metrics.parseTime,
-            convertTime: result.metrics.convertTime,
-            totalTime: connectionTime + result.metrics.totalTime,
-            features: result.metrics.featureCount,
-            tileSize: result.metrics.tileSize,
-            timestamp: Date.now()
-          });
+  const lookupStartTime = performance.now();
+  let cached = tileCacheEnabled ? tileCache.get(cacheKey) : undefined;
 
-          return { data: result.data };
-        }
+  // Fall back to tiles persisted by earlier sessions
+  let persistentKey: Awaited<ReturnType<typeof buildPersistentTileKey>> | null = null;
+  if (!cached && persistentTileCacheEnabled) {
+    try {
+      persistentKey = await buildPersistentTileKey(layerConfigs, { version: TILE_ENCODING_VERSION, method, layerConfigs }, tileId);
+      cached = await getPersistedTile(persistentKey.key);
+      if (cached && tileCacheEnabled) {
+        tileCache.set(cacheKey, configId, cached, cacheGeneration);
+      }
+    } catch (error) {
+      console.warn('Persistent tile cache unavailable:', error);
+    }
+  }
 
-      } finally {
-        // Always close the connection
-        if (conn) {
-          try {
-            await conn.close();
-          } catch (error) {
-            console.error('Error closing connection:', error);
-          }
-        }
+  if (cached) {
+    const lookupTime = performance.now() - lookupStartTime;
+
+    if (recordMetric) {
+      performanceTracker.addMetric({
+        ...tile,
+        queueTime: 0,
+        fetchTime: lookupTime,
+        convertTime: 0,
+        totalTime: lookupTime,
+        features: -1,
+        tileSize: cached.byteLength,
+        timestamp: Date.now(),
+        outcome: 'cached'
+      });
+    }
+
+    // MapLibre transfers the returned buffer to its worker, so never hand out the cached copy
+    return cached.slice();
+  }
+
+  // Take a pre-warmed connection from the pool, waiting if all are busy
+  const queueStartTime = performance.now();
+  const conn = await acquireConnection(signal);
+  const queueTime = performance.now() - queueStartTime;
+
+  try {
+    const generateStartTime = performance.now();
+    const layerTiles: Uint8Array[] = [];
+    let queryTime = 0;
+    let parseTime = 0;
+    let convertTime = 0;
+    let featureCount = 0;
+    let workerQueueTime: number | undefined;
+    let workerTime: number | undefined;
+
+    // Each layer is encoded by its own generator
+    for (let i = 0; i < layerConfigs.length; i++) {
+      const result = await generators[i].generate(conn, layerConfigs[i], zxy, signal);
+      queryTime += result.metrics.queryTime;
+      parseTime += result.metrics.parseTime;
+      convertTime += result.metrics.convertTime;
+      featureCount += result.metrics.featureCount;
+      if (result.metrics.workerTime !== undefined) {
+        workerQueueTime = (workerQueueTime ?? 0) + (result.metrics.workerQueueTime ?? 0);
+        workerTime = (workerTime ?? 0) + result.metrics.workerTime;
+      }
+      if (result.data.length > 0) {
+        layerTiles.push(result.data);
       }
+    }
 
-    } catch (error) {
-      console.error('Error in DuckDB protocol handler:', error);
-      return { data: new Uint8Array() };
+    const data = concatenateTiles(layerTiles);
+    const totalTime = queueTime + performance.now() - generateStartTime;
+    const features = generators.every(generator => generator.capabilities.featureCount) ? featureCount : -1;
+
+    console.log(`📊 ${source.label} Tile ${tileId}:`, {
+      queueWait: `${queueTime.toFixed(2)}ms`,
+      query: `${queryTime.toFixed(2)}ms`,
+      parse: `${parseTime.toFixed(2)}ms`,
+      convert: `${convertTime.toFixed(2)}ms`,
+      ...(workerTime !== undefined ? {
+        workerQueue: `${workerQueueTime!.toFixed(2)}ms`,
+        worker: `${workerTime.toFixed(2)}ms`
+      } : {}),
+      total: `${totalTime.toFixed(2)}ms`,
+      features,
+      tileSize: `${(data.length / 1024).toFixed(2)}KB`
+    });
+
+    // Track metrics in UI
+    if (recordMetric) {
+      performanceTracker.addMetric({
+        ...tile,
+        queueTime,
+        fetchTime: queryTime + parseTime,
+        convertTime,
+        totalTime,
+        features,
+        tileSize: data.length,
+        timestamp: Date.now(),
+        outcome: 'generated',
+        prepared: layerConfigs.some((config, i) =>
+          config.mercatorGeometryColumn && generators[i].capabilities.preparedGeometry),
+        workerQueueTime,
+        workerTime
+      });
+    }
+
+    const cachedCopy = data.slice();
+    if (tileCacheEnabled) {
+      tileCache.set(cacheKey, configId, cachedCopy, cacheGeneration);
     }
+    if (persistentKey) {
+      putPersistedTile(persistentKey, cachedCopy).catch(error => {
+        console.warn('Failed to persist tile:', error);
+      });
+    }
+
+    return data;
+
+  } finally {
+    // Always return the connection to the pool
+    releaseConnection(conn);
+  }
+}
+
+/**
+ * Derive a tile beyond maxDataZoom from its ancestor at maxDataZoom
+ *
+ * The ancestor is served like any other tile (usually from the cache, as
+ * the map zoomed in through it), so DuckDB is only queried if it isn't
+ * cached yet. Only the derived tile is recorded in the metrics, the
+ * ancestor load counts towards its fetch time. Derived tiles are kept in
+ * the in-memory cache only.
+ */
+async function overzoom(
+  source: TileSource,
+  zxy: TileCoordinates,
+  maxDataZoom: number,
+  signal: AbortSignal
+): Promise<Uint8Array> {
+  const { configId, method } = source;
+  const startTime = performance.now();
+  const tile = getTileMetricFields(source, zxy);
+  const cacheKey = `${configId}:${method}:${tile.tileId}`;
+  const cacheGeneration = tileCache.getGeneration(configId);
+
+  const cached = tileCacheEnabled ? tileCache.get(cacheKey) : undefined;
+  if (cached) {
+    const lookupTime = performance.now() - startTime;
+    performanceTracker.addMetric({
+      ...tile,
+      queueTime: 0,
+      fetchTime: lookupTime,
+      convertTime: 0,
+      totalTime: lookupTime,
+      features: -1,
+      tileSize: cached.byteLength,
+      timestamp: Date.now(),
+      outcome: 'cached'
+    });
+    return cached.slice();
+  }
+
+  const ancestor = getAncestorTile(zxy, maxDataZoom);
+  const ancestorData = await loadAncestorTile(source, ancestor);
+  // The shared ancestor load isn't cancelled with this request
+  signal.throwIfAborted();
+  const fetchTime = performance.now() - startTime;
+
+  const convertStartTime = performance.now();
+  const data = overzoomTile(ancestorData, ancestor, zxy);
+  const convertTime = performance.now() - convertStartTime;
+
+  performanceTracker.addMetric({
+    ...tile,
+    queueTime: 0,
+    fetchTime,
+    convertTime,
+    totalTime: performance.now() - startTime,
+    features: -1,
+    tileSize: data.byteLength,
+    timestamp: Date.now(),
+    outcome: 'overzoomed'
   });
 
-  console.log('DuckDB protocol registered for MapLibre');
+  if (tileCacheEnabled) {
+    tileCache.set(cacheKey, configId, data.slice(), cacheGeneration);
+  }
+  return data;
+}
+
+/**
+ * Load the ancestor tile overzoomed tiles are cut from
+ *
+ * All children of an ancestor are requested at once when zooming past
+ * maxDataZoom, so concurrent loads of the same ancestor share one query.
+ * With the tile cache disabled, ancestors are kept in a small cache of
+ * their own, so DuckDB isn't queried again for every child.
+ */
+function loadAncestorTile(source: TileSource, ancestor: TileCoordinates): Promise<Uint8Array> {
+  const { configId, method } = source;
+  const generation = ancestorTileCache.getGeneration(configId);
+  const cacheKey = `${configId}:${method}:${ancestor.z}/${ancestor.x}/${ancestor.y}`;
+  // Loads started before an invalidation are not shared with later requests
+  const loadKey = `${cacheKey}@${generation}`;
+
+  const inFlight = ancestorLoads.get(loadKey);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const cached = tileCacheEnabled ? undefined : ancestorTileCache.get(cacheKey);
+  if (cached) {
+    return Promise.resolve(cached);
+  }
+
+  // Not tied to the signal of the request that started it, other children may still need it
+  const load = loadTile(source, ancestor, new AbortController().signal, false)
+    .then(data => {
+      if (!tileCacheEnabled) {
+        ancestorTileCache.set(cacheKey, configId, data.slice(), generation);
+      }
+      return data;
+    })
+    .finally(() => {
+      ancestorLoads.delete(loadKey);
+    });
+  ancestorLoads.set(loadKey, load);
+  return load;
+}
+
+/**
+ * Drop cached tiles of a layer or layer group from both in-memory caches
+ */
+function invalidateCachedTiles(configId: string): void {
+  tileCache.invalidate(configId);
+  ancestorTileCache.invalidate(configId);
+}
+
+type TileMetricFields = Pick<TileMetrics, 'tileId' | 'source' | 'method' | 'z'>;
+
+/**
+ * Fields identifying a tile and its generators in performance metrics
+ */
+function getTileMetricFields(source: TileSource, zxy: TileCoordinates): TileMetricFields {
+  return { tileId: `${zxy.z}/${zxy.x}/${zxy.y}`, source: source.configId, method: source.label, z: zxy.z };
+}
+
+/**
+ * Zoom above which the tiles of a layer or layer group are overzoomed
+ *
+ * A layer group is overzoomed only if all of its layers have a maxDataZoom,
+ * from the highest one: below that, some layer still needs real tiles.
+ */
+function getMaxDataZoom(configId: string): number | undefined {
+  const config = activeConfigs.get(configId);
+  if (config) {
+    return config.maxDataZoom;
+  }
+
+  const group = activeGroups.get(configId);
+  if (!group || group.layers.length === 0 || group.layers.some(layer => layer.maxDataZoom === undefined)) {
+    return undefined;
+  }
+  return Math.max(...group.layers.map(layer => layer.maxDataZoom!));
+}
+
+/**
+ * Resolve a config id to the LayerConfigs that make up its tile
+ *
+ * A single layer is written as source-layer 'v'; each member of a layer
+ * group is written as its alias or table name.
+ */
+function resolveLayerConfigs(configId: string): LayerConfig[] | null {
+  const config = activeConfigs.get(configId);
+  if (config) {
+    return [toLayerConfig(config)];
+  }
+
+  const group = activeGroups.get(configId);
+  if (group) {
+    return group.layers.map(layer => toLayerConfig(layer, layer.alias ?? layer.tableName));
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a config id to its layers and their generators
+ *
+ * Throws if a layer names a generator that isn't registered.
+ */
+function resolveTileSource(configId: string): TileSource | null {
+  const layerConfigs = resolveLayerConfigs(configId);
+  if (!layerConfigs) {
+    return null;
+  }
+
+  const layers = activeConfigs.has(configId)
+    ? [activeConfigs.get(configId)!]
+    : activeGroups.get(configId)!.layers;
+  const generators = layers.map(layer => {
+    const name = layer.generator ?? defaultGenerator;
+    const generator = getTileGenerator(name);
+    if (!generator) {
+      throw new Error(`Unknown tile generator: ${name}`);
+    }
+    return generator;
+  });
+
+  return {
+    configId,
+    layerConfigs,
+    generators,
+    method: generators.map(generator => generator.name).join('+'),
+    label: Array.from(new Set(generators.map(generator => generator.label))).join('+')
+  };
+}
+
+/**
+ * Layers of a layer or layer group as tiles are generated for them, each
+ * with its generator
+ */
+export function getTileSourceLayers(configId: string): { config: LayerConfig; generator: TileGenerator }[] | null {
+  const source = resolveTileSource(configId);
+  return source
+    ? source.layerConfigs.map((config, i) => ({ config, generator: source.generators[i] }))
+    : null;
+}
+
+/**
+ * Convert config to LayerConfig format
+ */
+function toLayerConfig(config: DuckDBLayerConfig, layerName?: string): LayerConfig {
+  return {
+    tableName: config.tableName,
+    geometryColumn: config.geometryColumn,
+    propertyColumns: config.propertyColumns,
+    schema: config.schema,
+    layerName,
+    sourceCrs: config.sourceCrs,
+    mercatorGeometryColumn: config.mercatorGeometryColumn,
+    filter: config.filter,
+    idColumn: config.idColumn,
+    cluster: config.cluster,
+    grid: config.grid
+  };
+}
+
+/**
+ * Enable or disable the in-memory tile cache (disabling also clears it)
+ *
+ * Ancestors of overzoomed tiles are cached regardless, see loadAncestorTile.
+ */
+export function setTileCacheEnabled(enabled: boolean): void {
+  tileCacheEnabled = enabled;
+  if (!enabled) {
+    tileCache.clear();
+  }
+  ancestorTileCache.clear();
+}
+
+export function isTileCacheEnabled(): boolean {
+  return tileCacheEnabled;
+}
+
+/**
+ * Drop all tiles from the in-memory tile cache
+ */
+export function clearTileCache(): void {
+  tileCache.clear();
+  ancestorTileCache.clear();
+}
+
+/**
+ * Set the maximum total byte size of the in-memory tile cache
+ */
+export function setTileCacheMaxBytes(maxBytes: number): void {
+  tileCache.setMaxBytes(maxBytes);
+}
+
+export function getTileCacheStats(): { entries: number; bytes: number; maxBytes: number } {
+  return tileCache.getStats();
+}
+
+/**
+ * Enable or disable the persistent (IndexedDB) tile cache
+ *
+ * Disabling only stops reads and writes; use purgePersistedTiles to free the storage.
+ */
+export function setPersistentTileCacheEnabled(enabled: boolean): void {
+  persistentTileCacheEnabled = enabled;
+}
+
+export function isPersistentTileCacheEnabled(): boolean {
+  return persistentTileCacheEnabled;
+}
+
+/**
+ * Delete persisted tiles of the tables behind a layer or layer group,
+ * or all persisted tiles if no id is given
+ */
+export async function purgePersistedTiles(id?: string): Promise<void> {
+  if (id === undefined) {
+    await purgePersistentTileCache();
+    return;
+  }
+
+  const layerConfigs = resolveLayerConfigs(id);
+  if (!layerConfigs) {
+    console.error(`No configuration found for: ${id}`);
+    return;
+  }
+  for (const config of layerConfigs) {
+    await purgePersistentTileCache(config);
+  }
+}
+
+/**
+ * Drop cached tiles of every layer and layer group that reads from a table
+ *
+ * Call this after the table has been replaced or modified.
+ */
+export function invalidateDuckDBTable(tableName: string): void {
+  // The table contents may have changed, so its fingerprint and column types must be recomputed
+  forgetTableFingerprint({ tableName });
+  forgetPropertyTypes({ tableName });
+
+  for (const [id, config] of activeConfigs) {
+    if (config.tableName === tableName) {
+      forgetTableFingerprint(config);
+      forgetPropertyTypes(config);
+      invalidateCachedTiles(id);
+    }
+  }
+  for (const [id, group] of activeGroups) {
+    const layers = group.layers.filter(layer => layer.tableName === tableName);
+    if (layers.length > 0) {
+      layers.forEach(layer => {
+        forgetTableFingerprint(layer);
+        forgetPropertyTypes(layer);
+      });
+      invalidateCachedTiles(id);
+    }
+  }
+  console.log(`Invalidated cached tiles for table: ${tableName}`);
 }
 
 /**
  * Register a table configuration for use with the DuckDB protocol
  */
 export function registerDuckDBLayer(id: string, config: DuckDBLayerConfig): void {
+  invalidateCachedTiles(id);
   activeConfigs.set(id, config);
   console.log(`Registered DuckDB layer: ${id}`, config);
 }
@@ -163,13 +655,47 @@ export function registerDuckDBLayer(id: string, config: DuckDBLayerConfig): void
  * Unregister a table configuration
  */
 export function unregisterDuckDBLayer(id: string): void {
+  invalidateCachedTiles(id);
   activeConfigs.delete(id);
   console.log(`Unregistered DuckDB layer: ${id}`);
 }
 
+/**
+ * Register a group of tables served as separate source-layers in one tile
+ *
+ * Tiles are requested as duckdb://{id}/{z}/{x}/{y}.pbf like single layers.
+ */
+export function registerDuckDBLayerGroup(id: string, config: DuckDBLayerGroupConfig): void {
+  const names = config.layers.map(layer => layer.alias ?? layer.tableName);
+  const duplicates = names.filter((name, i) => names.indexOf(name) !== i);
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate source-layer names in group ${id}: ${duplicates.join(', ')}`);
+  }
+
+  invalidateCachedTiles(id);
+  activeGroups.set(id, config);
+  console.log(`Registered DuckDB layer group: ${id}`, names);
+}
+
+/**
+ * Unregister a layer group
+ */
+export function unregisterDuckDBLayerGroup(id: string): void {
+  invalidateCachedTiles(id);
+  activeGroups.delete(id);
+  console.log(`Unregistered DuckDB layer group: ${id}`);
+}
+
 /**
  * Get all registered configurations
  */
 export function getRegisteredLayers(): Map<string, DuckDBLayerConfig> {
   return activeConfigs;
+}
+
+/**
+ * Get all registered layer groups
+ */
+export function getRegisteredLayerGroups(): Map<string, DuckDBLayerGroupConfig> {
+  return activeGroups;
 }
\ No newline at end of file
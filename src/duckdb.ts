@@ -3,10 +3,32 @@ import duckdb_wasm from '@duckdb/duckdb-wasm/dist/duckdb-mvp.wasm?url';
 import mvp_worker from '@duckdb/duckdb-wasm/dist/duckdb-browser-mvp.worker.js?worker';
 import duckdb_wasm_eh from '@duckdb/duckdb-wasm/dist/duckdb-eh.wasm?url';
 import eh_worker from '@duckdb/duckdb-wasm/dist/duckdb-browser-eh.worker.js?worker';
+import { createAbortError } from './cancellable-query';
 
 let db: duckdb.AsyncDuckDB | null = null;
 let conn: duckdb.AsyncDuckDBConnection | null = null;
 
+// Idle connections are health-checked before reuse after this long
+const HEALTH_CHECK_IDLE_MS = 30_000;
+
+interface IdleConnection {
+  conn: duckdb.AsyncDuckDBConnection;
+  idleSince: number;
+}
+
+interface PoolWaiter {
+  resolve: (conn: duckdb.AsyncDuckDBConnection) => void;
+  reject: (error: unknown) => void;
+}
+
+// Bounded pool of connections with the spatial extension already loaded
+const connectionPool = {
+  size: 4,
+  open: 0,  // Idle plus acquired connections
+  idle: [] as IdleConnection[],
+  waiters: [] as PoolWaiter[]
+};
+
 export async function initializeDuckDB(): Promise<{
   db: duckdb.AsyncDuckDB;
   connection: duckdb.AsyncDuckDBConnection;
@@ -36,8 +58,23 @@ export async function initializeDuckDB(): Promise<{
   const logger = new duckdb.ConsoleLogger();
 
   // Instantiate DuckDB
-  db = new duckdb.AsyncDuckDB(logger, worker);
-  await db.instantiate(bundle.mainModule, bundle.pthreadWorker);
+  const database = new duckdb.AsyncDuckDB(logger, worker);
+  await database.instantiate(bundle.mainModule, bundle.pthreadWorker);
+
+  return attachDuckDB(database);
+}
+
+/**
+ * Use an already instantiated database instead of the browser bundles
+ *
+ * Lets DuckDB-WASM run outside the browser (e.g. the Node benchmark runner)
+ * while executeSql and the connection pool work as usual.
+ */
+export async function attachDuckDB(database: duckdb.AsyncDuckDB): Promise<{
+  db: duckdb.AsyncDuckDB;
+  connection: duckdb.AsyncDuckDBConnection;
+}> {
+  db = database;
 
   // Create connection
   conn = await db.connect();
@@ -55,6 +92,10 @@ export async function initializeDuckDB(): Promise<{
   return { db, connection: conn };
 }
 
+export function getDatabase(): duckdb.AsyncDuckDB | null {
+  return db;
+}
+
 export async function executeSql(sql: string): Promise<any[]> {
   if (!conn) {
     throw new Error('DuckDB not initialized. Call initializeDuckDB first.');
@@ -91,3 +132,159 @@ export async function executeWithConnection(
   return result.toArray();
 }
 
+/**
+ * Set the maximum number of pooled connections
+ */
+export function setConnectionPoolSize(size: number): void {
+  if (size < 1) {
+    throw new Error(`Invalid connection pool size: ${size}`);
+  }
+  connectionPool.size = size;
+
+  // Close idle connections above the new size
+  while (connectionPool.open > size && connectionPool.idle.length > 0) {
+    discardConnection(connectionPool.idle.pop()!.conn);
+  }
+
+  // Serve queued requests with the extra capacity
+  while (connectionPool.waiters.length > 0 && connectionPool.open < size) {
+    openConnectionFor(connectionPool.waiters.shift()!);
+  }
+}
+
+export function getConnectionPoolStats(): {
+  size: number;
+  open: number;
+  idle: number;
+  waiting: number;
+} {
+  return {
+    size: connectionPool.size,
+    open: connectionPool.open,
+    idle: connectionPool.idle.length,
+    waiting: connectionPool.waiters.length
+  };
+}
+
+/**
+ * Open connections up to the pool size ahead of the first tile requests
+ */
+export async function warmConnectionPool(): Promise<void> {
+  const opening: Promise<duckdb.AsyncDuckDBConnection>[] = [];
+  while (connectionPool.open < connectionPool.size) {
+    opening.push(openPooledConnection());
+  }
+
+  const connections = await Promise.allSettled(opening);
+  for (const result of connections) {
+    if (result.status === 'fulfilled') {
+      releaseConnection(result.value);
+    }
+  }
+  console.log(`Connection pool warmed: ${connectionPool.open} connections`);
+}
+
+/**
+ * Acquire a connection from the pool
+ *
+ * Reuses an idle connection, opens a new one while below the pool size,
+ * or waits for a connection to be released. Every acquired connection
+ * must be returned with releaseConnection.
+ *
+ * @param signal - Stops waiting for a connection when aborted (rejects with an AbortError)
+ */
+export async function acquireConnection(signal?: AbortSignal): Promise<duckdb.AsyncDuckDBConnection> {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  while (connectionPool.idle.length > 0) {
+    const { conn: idleConn, idleSince } = connectionPool.idle.pop()!;
+    if (performance.now() - idleSince > HEALTH_CHECK_IDLE_MS && !(await isConnectionHealthy(idleConn))) {
+      console.warn('Discarding unhealthy pooled connection');
+      discardConnection(idleConn);
+      continue;
+    }
+    return idleConn;
+  }
+
+  if (connectionPool.open < connectionPool.size) {
+    return openPooledConnection();
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter: PoolWaiter = {
+      resolve: pooledConn => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(pooledConn);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    };
+    const onAbort = () => {
+      connectionPool.waiters.splice(connectionPool.waiters.indexOf(waiter), 1);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    connectionPool.waiters.push(waiter);
+  });
+}
+
+/**
+ * Return a connection to the pool
+ *
+ * @param healthy - Pass false if the connection failed, so that it is closed instead of reused
+ */
+export function releaseConnection(pooledConn: duckdb.AsyncDuckDBConnection, healthy = true): void {
+  if (!healthy || connectionPool.open > connectionPool.size) {
+    discardConnection(pooledConn);
+    // Replace the discarded connection for the next queued request
+    if (connectionPool.waiters.length > 0 && connectionPool.open < connectionPool.size) {
+      openConnectionFor(connectionPool.waiters.shift()!);
+    }
+    return;
+  }
+
+  const waiter = connectionPool.waiters.shift();
+  if (waiter) {
+    waiter.resolve(pooledConn);
+  } else {
+    connectionPool.idle.push({ conn: pooledConn, idleSince: performance.now() });
+  }
+}
+
+async function openPooledConnection(): Promise<duckdb.AsyncDuckDBConnection> {
+  connectionPool.open++;
+  try {
+    const newConn = await createConnection();
+    if (!newConn) {
+      throw new Error('DuckDB not initialized. Call initializeDuckDB first.');
+    }
+    return newConn;
+  } catch (error) {
+    connectionPool.open--;
+    throw error;
+  }
+}
+
+function openConnectionFor(waiter: PoolWaiter): void {
+  openPooledConnection().then(waiter.resolve, waiter.reject);
+}
+
+function discardConnection(pooledConn: duckdb.AsyncDuckDBConnection): void {
+  connectionPool.open--;
+  pooledConn.close().catch(error => {
+    console.error('Error closing connection:', error);
+  });
+}
+
+async function isConnectionHealthy(pooledConn: duckdb.AsyncDuckDBConnection): Promise<boolean> {
+  try {
+    await pooledConn.query('SELECT 1');
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Escaping of values embedded in HTML and CSV output
+ */
+
+/**
+ * Escape text for HTML content and double-quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * A CSV field, quoted if needed (empty for undefined and null)
+ */
+export function toCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
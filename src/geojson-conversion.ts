@@ -0,0 +1,171 @@
+/**
+ * GeoJSON to MVT conversion stage of the GeoJSON approach
+ *
+ * Takes the query results of each layer as Arrow IPC bytes, parses the
+ * GeoJSON geometries and encodes the tile with geojson-vt and vt-pbf.
+ * Kept free of DuckDB imports so it can run in a conversion worker as well
+ * as on the main thread.
+ */
+
+import { tableFromIPC } from 'apache-arrow';
+import type { Feature, Geometry, GeoJsonProperties } from 'geojson';
+import geojsonvt from 'geojson-vt';
+import vtpbf from 'vt-pbf';
+import type { PropertyColumn } from './property-encoding';
+
+// Result column holding the feature id
+export const FEATURE_ID_FIELD = '__feature_id';
+
+export interface ConversionLayer {
+  name: string;                  // MVT layer name
+  propertyColumns: PropertyColumn[];
+  rows: Uint8Array;              // Query results (`geojson` column, properties, id) as Arrow IPC stream
+}
+
+export interface ConversionRequest {
+  zxy: { z: number; x: number; y: number };
+  layers: ConversionLayer[];
+}
+
+export interface ConversionResult {
+  data: Uint8Array;
+  featureCount: number;
+  parseTime: number;
+  convertTime: number;
+}
+
+/**
+ * Convert the query results of a tile's layers into an MVT
+ */
+export function convertGeoJSONTile(request: ConversionRequest): ConversionResult {
+  const { z, x, y } = request.zxy;
+
+  // Step 1: Parse results to GeoJSON features
+  const parseStartTime = performance.now();
+  const layers: Record<string, Feature<Geometry, GeoJsonProperties>[]> = {};
+  let featureCount = 0;
+  for (const layer of request.layers) {
+    const rows = tableFromIPC(layer.rows).toArray();
+    const features = rowsToFeatures(rows, layer.propertyColumns);
+    featureCount += features.length;
+    if (features.length > 0) {
+      layers[layer.name] = features;
+    }
+  }
+  const parseTime = performance.now() - parseStartTime;
+
+  // Step 2: Convert GeoJSON to MVT
+  const convertStartTime = performance.now();
+  const data = geojsonToVectorTile(layers, z, x, y);
+  const convertTime = performance.now() - convertStartTime;
+
+  return { data, featureCount, parseTime, convertTime };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parse GeoJSON string to Geometry object
+ */
+function parseGeoJSON(geojsonStr: string): Geometry | null {
+  try {
+    return JSON.parse(geojsonStr) as Geometry;
+  } catch (error) {
+    console.error('Failed to parse GeoJSON:', error);
+    return null;
+  }
+}
+
+/**
+ * Convert query result rows to GeoJSON features
+ */
+function rowsToFeatures(
+  rows: any[],
+  propertyColumns: PropertyColumn[]
+): Feature<Geometry, GeoJsonProperties>[] {
+  const features: Feature<Geometry, GeoJsonProperties>[] = [];
+
+  for (const row of rows) {
+    const geojson = parseGeoJSON(row.geojson);
+    if (!geojson) continue;
+
+    // Build properties from other columns
+    const properties: GeoJsonProperties = {};
+    // Values are already encoded by type in SQL; nested values stay JSON
+    // strings, as in the native method
+    for (const { name } of propertyColumns) {
+      if (name in row && row[name] !== null) {
+        // BIGINT columns arrive as bigint, which geojson-vt and vt-pbf can't encode
+        // (see toPropertyValue, which can't be imported here without DuckDB)
+        const value = row[name];
+        properties[name] = typeof value === 'bigint' ? Number(value) : value;
+      }
+    }
+
+    // MVT ids are unsigned, as in the native method
+    const id = row[FEATURE_ID_FIELD] != null ? Number(row[FEATURE_ID_FIELD]) : undefined;
+
+    features.push({
+      type: 'Feature',
+      ...(id !== undefined && id >= 0 ? { id } : {}),
+      geometry: geojson,
+      properties
+    });
+  }
+
+  return features;
+}
+
+/**
+ * Convert GeoJSON features to MVT using geojson-vt
+ *
+ * @param layers - Features keyed by MVT layer name
+ */
+function geojsonToVectorTile(
+  layers: Record<string, Feature<Geometry, GeoJsonProperties>[]>,
+  z: number,
+  x: number,
+  y: number
+): Uint8Array {
+  const tiles: Record<string, any> = {};
+
+  for (const [layerName, features] of Object.entries(layers)) {
+    if (features.length === 0) {
+      continue;
+    }
+
+    // Create a GeoJSON FeatureCollection
+    const featureCollection = {
+      type: 'FeatureCollection' as const,
+      features: features
+    };
+
+    // Create vector tile index
+    const tileIndex = geojsonvt(featureCollection, {
+      maxZoom: z,
+      indexMaxZoom: z,
+      indexMaxPoints: 0,
+      tolerance: 0,
+      extent: 4096,
+      buffer: 0,
+      // Keep the ids from the id column instead of numbering features per tile
+      generateId: false
+    });
+
+    // Get the specific tile
+    const tile = tileIndex.getTile(z, x, y);
+    if (tile) {
+      tiles[layerName] = tile;
+    }
+  }
+
+  if (Object.keys(tiles).length === 0) {
+    return new Uint8Array();
+  }
+
+  // Convert to MVT format
+  const buff = vtpbf.fromGeojsonVt(tiles);
+  return new Uint8Array(buff);
+}
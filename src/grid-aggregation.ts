@@ -0,0 +1,115 @@
+/**
+ * Aggregated grid (density) layers
+ *
+ * Instead of shipping raw features, a grid layer aggregates its table into
+ * square bins inside DuckDB. Bins have a fixed size in screen pixels, so
+ * their resolution doubles with every zoom level, and each tile holds at
+ * most (512 / cellSize)² features however many rows the table has.
+ * Each bin becomes a square polygon (for choropleths) or its center point
+ * (for heatmaps) with a `count` property and any configured aggregates.
+ */
+
+import { DEFAULT_CRS, getMercatorTileBounds, transformSql } from './crs';
+import { TILE_SIZE_PIXELS } from './clustering';
+import type { PropertyColumn } from './property-encoding';
+
+export interface GridAggregate {
+  name: string;        // Property name of the aggregate in the tile
+  expression: string;  // SQL aggregate expression, e.g. "AVG(speed)"
+}
+
+export interface GridAggregationOptions {
+  cellSize?: number;  // Bin size in pixels (defaults to 16)
+  geometry?: 'polygon' | 'centroid';  // Bin shape (defaults to polygon)
+  aggregates?: GridAggregate[];
+}
+
+/**
+ * Layer configuration fields the grid query depends on
+ */
+export interface GridLayerConfig {
+  tableName: string;
+  geometryColumn: string;
+  schema?: string;
+  sourceCrs?: string;
+  mercatorGeometryColumn?: string;
+  filter?: string;
+  grid?: GridAggregationOptions;
+}
+
+/**
+ * Properties of bin features, for encoding and metadata
+ */
+export function getGridPropertyColumns(options: GridAggregationOptions): PropertyColumn[] {
+  return [
+    { name: 'count', kind: 'integer' },
+    ...(options.aggregates ?? []).map(agg => ({ name: agg.name, kind: 'double' as const }))
+  ];
+}
+
+/**
+ * SQL expression for the EPSG:3857 geometry of a bin row
+ */
+export function gridGeometrySql(options: GridAggregationOptions): string {
+  return options.geometry === 'centroid'
+    ? 'ST_Point((min_x + max_x) / 2, (min_y + max_y) / 2)'
+    : 'ST_MakeEnvelope(min_x, min_y, max_x, max_y)';
+}
+
+/**
+ * SQL query returning one row per non-empty bin of a tile
+ *
+ * Columns: `min_x`, `min_y`, `max_x`, `max_y` (bin bounds in EPSG:3857),
+ * `count`, and one column per aggregate.
+ */
+export function generateGridQuery(
+  config: GridLayerConfig,
+  zxy: { z: number; x: number; y: number }
+): string {
+  const options = config.grid;
+  if (!options) {
+    throw new Error(`Layer ${config.tableName} is not a grid layer`);
+  }
+
+  const { tableName, geometryColumn, schema } = config;
+  const { z, x, y } = zxy;
+  const fullTableName = schema ? `"${schema}"."${tableName}"` : `"${tableName}"`;
+  const sourceCrs = config.sourceCrs ?? DEFAULT_CRS;
+
+  const projectedGeometry = config.mercatorGeometryColumn
+    ? `"${config.mercatorGeometryColumn}"`
+    : transformSql(`"${geometryColumn}"`, sourceCrs, 'EPSG:3857');
+
+  // Bins are aligned with the tile, so no bin spans two tiles
+  const tile = getMercatorTileBounds(z, x, y);
+  const cellSize = (tile.width * (options.cellSize ?? 16)) / TILE_SIZE_PIXELS;
+
+  const aggregateSelection = (options.aggregates ?? [])
+    .map(agg => `,\n        CAST(${agg.expression} AS DOUBLE) AS "${agg.name}"`)
+    .join('');
+
+  // Features are binned by their centroid
+  return `
+    WITH binned AS (
+      SELECT
+        *,
+        FLOOR((ST_X(ST_Centroid(${projectedGeometry})) - ${tile.minX}) / ${cellSize}) AS bin_x,
+        FLOOR((${tile.maxY} - ST_Y(ST_Centroid(${projectedGeometry}))) / ${cellSize}) AS bin_y
+      FROM ${fullTableName}
+      WHERE "${geometryColumn}" IS NOT NULL
+        AND ST_Intersects(${projectedGeometry}, ST_TileEnvelope(${z}, ${x}, ${y}))${config.filter ? `
+        AND (${config.filter})` : ''}
+    )
+    SELECT
+        ${tile.minX} + bin_x * ${cellSize} AS min_x,
+        ${tile.maxY} - (bin_y + 1) * ${cellSize} AS min_y,
+        ${tile.minX} + (bin_x + 1) * ${cellSize} AS max_x,
+        ${tile.maxY} - bin_y * ${cellSize} AS max_y,
+        COUNT(*) AS count${aggregateSelection}
+    FROM binned
+    -- Centroids outside the tile belong to a neighboring tile
+    WHERE bin_x >= 0 AND bin_x * ${cellSize} < ${tile.width}
+      AND bin_y >= 0 AND bin_y * ${cellSize} < ${tile.width}
+    GROUP BY bin_x, bin_y
+  `;
+}
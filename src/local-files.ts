@@ -0,0 +1,148 @@
+/**
+ * Local files dropped on or picked in the page
+ *
+ * Files are registered with DuckDB as browser file handles, so DuckDB reads
+ * them in chunks straight from the File instead of from a copy in a JS
+ * buffer. The reader is picked by sniffing the file's first bytes, as
+ * extensions are often missing or wrong (e.g. GeoJSON saved as .json).
+ */
+
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { getDatabase } from './duckdb';
+import type { DataSource } from './map-layers';
+
+// Bytes read from the start of a file to detect its format
+const SNIFF_BYTES = 64 * 1024;
+
+const GEOJSON_PATTERN = /"type"\s*:\s*"(FeatureCollection|Feature)"|"features"\s*:\s*\[/;
+
+// Files read together with a primary file of the same name, e.g. a
+// shapefile's .shx and .dbf next to its .shp
+const SIDECAR_PATTERN = /\.(shx|dbf|prj|cpg|sbn|sbx|qix|fix|shp\.xml)$/i;
+
+// Registered file names; registering a file again replaces the previous one
+const registeredFiles = new Set<string>();
+
+export interface LocalFileSource {
+  file: File;
+  source: DataSource;  // url is the registered name
+}
+
+/**
+ * Register local files with DuckDB and detect how to read them
+ *
+ * All files are registered before any is read, so that readers find the
+ * sidecar files of a primary file (e.g. the .shx and .dbf of a .shp).
+ *
+ * @returns The files to load, without sidecars of another file
+ */
+export async function registerLocalFiles(files: File[]): Promise<LocalFileSource[]> {
+  const db = getDatabase();
+  if (!db) {
+    throw new Error('DuckDB not initialized');
+  }
+
+  for (const file of files) {
+    // Keep the extension, GDAL picks ST_Read drivers by it
+    const name = getRegisteredName(file);
+    if (registeredFiles.has(name)) {
+      await db.dropFile(name);
+    }
+    await db.registerFileHandle(name, file, duckdb.DuckDBDataProtocol.BROWSER_FILEREADER, true);
+    registeredFiles.add(name);
+  }
+
+  const primaryFiles = files.filter(file => !isSidecar(file, files));
+  const sources: LocalFileSource[] = [];
+  for (const file of primaryFiles) {
+    const reader = await sniffFileFormat(file);
+    const url = getRegisteredName(file);
+    console.log(`Registered local file: ${url} (${(file.size / 1024 / 1024).toFixed(2)}MB, ${reader})`);
+    sources.push({ file, source: { url, reader } });
+  }
+  return sources;
+}
+
+/**
+ * Detect the reader for a file from its content
+ *
+ * Parquet is recognized by its magic bytes, GeoJSON and other JSON by
+ * their first non-whitespace character and GeoJSON members, and XML-based
+ * formats (KML, GPX, GML) by a leading '<'. Other binary files (GeoPackage,
+ * FlatGeobuf, Shapefile, ...) are left to ST_Read, other text to the CSV
+ * sniffer.
+ */
+export async function sniffFileFormat(file: File): Promise<DataSource['reader']> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  if (head.length === 0) {
+    throw new Error(`File is empty: ${file.name}`);
+  }
+
+  if (startsWith(head, 'PAR1')) {
+    return 'parquet';
+  }
+
+  // NUL bytes don't occur in text files
+  if (head.includes(0)) {
+    return 'st_read';
+  }
+
+  // TextDecoder drops a byte order mark
+  const text = new TextDecoder().decode(head).trimStart();
+  if (text.startsWith('{') || text.startsWith('[')) {
+    return GEOJSON_PATTERN.test(text) ? 'st_read' : 'json';
+  }
+  if (text.startsWith('<')) {
+    return 'st_read';
+  }
+  return 'csv';
+}
+
+/**
+ * Table function call reading a data source
+ */
+export function getReaderSql(source: DataSource): string {
+  const path = `'${source.url.replace(/'/g, "''")}'`;
+  switch (source.reader) {
+    case 'csv': return `read_csv_auto(${path})`;
+    case 'json': return `read_json_auto(${path})`;
+    case 'parquet': return `read_parquet(${path})`;
+    case 'st_read': return `ST_Read(${path})`;
+    case 'auto': return path;
+  }
+}
+
+/**
+ * Table name derived from a file name, e.g. "My Cities.geojson" → "my_cities"
+ */
+export function getTableNameForFile(file: File): string {
+  const name = file.name
+    .replace(/\.[^.]*$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[a-z_]/.test(name) ? name : `t_${name}`;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getRegisteredName(file: File): string {
+  return file.name.replace(/[^\w.-]/g, '_');
+}
+
+// A sidecar dropped on its own is loaded like any other file
+function isSidecar(file: File, files: File[]): boolean {
+  const match = file.name.match(SIDECAR_PATTERN);
+  if (!match) {
+    return false;
+  }
+  const baseName = file.name.slice(0, match.index).toLowerCase();
+  return files.some(other =>
+    !SIDECAR_PATTERN.test(other.name) && other.name.replace(/\.[^.]*$/, '').toLowerCase() === baseName);
+}
+
+function startsWith(bytes: Uint8Array, magic: string): boolean {
+  return magic.split('').every((char, i) => bytes[i] === char.charCodeAt(0));
+}
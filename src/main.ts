@@ -1,17 +1,49 @@
 import './style.css'
-import { initializeDuckDB, executeSql } from './duckdb'
+import { initializeDuckDB, executeSql, warmConnectionPool } from './duckdb'
 import { initializeMap, getMap } from './map'
-import { initializeDuckDBProtocol, setMVTMethod } from './duckdb-protocol'
+import {
+  initializeDuckDBProtocol,
+  setDefaultTileGenerator,
+  getDefaultTileGenerator,
+  setPersistentTileCacheEnabled,
+  clearTileCache,
+  purgePersistedTiles,
+  getRegisteredLayers
+} from './duckdb-protocol'
+import { getPersistentTileCacheStats } from './persistent-tile-cache'
 import {
   addDuckDBLayer,
   detectGeometryColumns,
+  detectSourceCrs,
   getTableColumns,
   removeDuckDBLayer,
+  prepareLayerForTiling,
+  updateDuckDBLayerFilter,
   getActiveLayers,
   toggleLayerVisibility,
-  toggleSpatialIndexes
+  toggleSpatialIndexes,
+  resetLayersForReplacedTable
 } from './map-layers'
+import type { DataSource } from './map-layers'
 import { performanceTracker } from './performance-tracker'
+import { getTileGenerators } from './tile-generators'
+import { exportPMTiles } from './pmtiles-export'
+import { exportMBTiles } from './mbtiles-export'
+import { escapeHtml } from './escaping'
+import { registerLocalFiles, getReaderSql, getTableNameForFile } from './local-files'
+import type { LocalFileSource } from './local-files'
+import { lngLatToTile } from './tile-pyramid'
+import type { BBox } from './tile-pyramid'
+import { enableTileDebugOverlay, disableTileDebugOverlay } from './tile-debug-overlay'
+import { inspectTile, renderTileInspection } from './tile-inspector'
+import {
+  setCrossCheckEnabled,
+  clearCrossCheckResults,
+  subscribeCrossCheck,
+  exportCrossCheckReport,
+  renderCrossCheckResults
+} from './tile-cross-check'
+import type { MapMouseEvent } from 'maplibre-gl'
 
 document.querySelector<HTMLDivElement>('#app')!.innerHTML = `
   <div class="sidebar">
@@ -35,6 +67,13 @@ document.querySelector<HTMLDivElement>('#app')!.innerHTML = `
           value="data"
         />
       </div>
+      <div id="drop-zone" class="drop-zone">
+        Drop files here or
+        <label style="cursor: pointer; text-decoration: underline;">
+          choose files<input id="file-input" type="file" multiple style="display: none;" disabled>
+        </label>
+        <div style="font-size: 12px; color: #888;">CSV, JSON, Parquet, GeoJSON, GeoPackage, ...</div>
+      </div>
       <div style="display: flex; gap: 10px;">
         <button id="load-btn" type="button" style="flex: 1;" disabled>Load Data</button>
         <button id="load-sample-btn" type="button" style="flex: 1;" disabled>Load Sample Data</button>
@@ -46,49 +85,118 @@ document.querySelector<HTMLDivElement>('#app')!.innerHTML = `
       <div id="layer-list"></div>
     </div>
 
+    <div class="card" id="export-tiles" style="display: none;">
+      <h3>Export Tiles</h3>
+      <select id="export-layer" style="width: 100%; padding: 6px; margin-bottom: 8px;"></select>
+      <div style="display: flex; gap: 10px; margin-bottom: 8px; font-size: 14px;">
+        <label>Min zoom <input id="export-min-zoom" type="number" min="0" max="22" value="0" style="width: 50px;"></label>
+        <label>Max zoom <input id="export-max-zoom" type="number" min="0" max="22" value="10" style="width: 50px;"></label>
+      </div>
+      <label style="display: flex; align-items: center; cursor: pointer; margin-bottom: 8px; font-size: 14px;">
+        <input type="checkbox" id="export-current-view" style="margin-right: 8px;">
+        Limit to current view
+      </label>
+      <div style="display: flex; gap: 10px;">
+        <button id="export-pmtiles-btn" type="button" style="padding: 4px 8px; font-size: 12px;">Export PMTiles</button>
+        <button id="export-mbtiles-btn" type="button" style="padding: 4px 8px; font-size: 12px;">Export MBTiles</button>
+      </div>
+      <div id="export-progress" style="margin-top: 8px; font-size: 12px; color: #888;"></div>
+    </div>
+
     <div class="card">
       <h3>MVT Generation Method</h3>
+      <div id="mvt-methods" style="margin: 10px 0;"></div>
+    </div>
+
+    <div class="card">
+      <h3>Spatial Index</h3>
       <div style="margin: 10px 0;">
-        <label style="display: flex; align-items: center; margin-bottom: 8px; cursor: pointer;">
-          <input type="radio" name="mvt-method" id="mvt-native" checked style="margin-right: 8px;">
+        <label style="display: flex; align-items: center; cursor: pointer;">
+          <input type="checkbox" id="spatial-index-enabled" checked style="margin-right: 8px;">
           <div>
-            <strong>Native ST_AsMVT</strong>
-            <div style="font-size: 12px; color: #888;">Generate MVT directly in DuckDB</div>
+            <strong>Use Spatial Index (R-Tree)</strong>
+            <div style="font-size: 12px; color: #888;">Create spatial indexes on geometry columns for better performance</div>
           </div>
         </label>
+      </div>
+    </div>
+
+    <div class="card">
+      <h3>Tile Cache</h3>
+      <div style="margin: 10px 0;">
         <label style="display: flex; align-items: center; cursor: pointer;">
-          <input type="radio" name="mvt-method" id="mvt-geojson" style="margin-right: 8px;">
+          <input type="checkbox" id="persistent-cache-enabled" checked style="margin-right: 8px;">
           <div>
-            <strong>GeoJSON + geojson-vt</strong>
-            <div style="font-size: 12px; color: #888;">Fetch GeoJSON, convert client-side</div>
+            <strong>Persist Tiles (IndexedDB)</strong>
+            <div style="font-size: 12px; color: #888;">Keep generated tiles across page reloads</div>
           </div>
         </label>
       </div>
+      <div style="font-size: 14px;">Persisted: <span id="persistent-cache-size">-</span></div>
+      <button id="purge-cache-btn" type="button" style="margin-top: 10px; padding: 4px 8px; font-size: 12px;">Clear Tile Cache</button>
     </div>
 
     <div class="card">
-      <h3>Spatial Index</h3>
+      <h3>Debug</h3>
       <div style="margin: 10px 0;">
         <label style="display: flex; align-items: center; cursor: pointer;">
-          <input type="checkbox" id="spatial-index-enabled" checked style="margin-right: 8px;">
+          <input type="checkbox" id="tile-debug-overlay" style="margin-right: 8px;">
           <div>
-            <strong>Use Spatial Index (R-Tree)</strong>
-            <div style="font-size: 12px; color: #888;">Create spatial indexes on geometry columns for better performance</div>
+            <strong>Tile Timing Overlay</strong>
+            <div style="font-size: 12px; color: #888;">Outline requested tiles, colored by total time</div>
+          </div>
+        </label>
+        <label style="display: flex; align-items: center; cursor: pointer; margin-top: 8px;">
+          <input type="checkbox" id="tile-inspector-enabled" style="margin-right: 8px;">
+          <div>
+            <strong>Tile Inspector</strong>
+            <div style="font-size: 12px; color: #888;">Click the map to show a tile's SQL, query plan and contents</div>
+          </div>
+        </label>
+        <label style="display: flex; align-items: center; cursor: pointer; margin-top: 8px;">
+          <input type="checkbox" id="cross-check-enabled" style="margin-right: 8px;">
+          <div>
+            <strong>Cross-Check Generators</strong>
+            <div style="font-size: 12px; color: #888;">Generate requested tiles with Native and GeoJSON and compare them</div>
           </div>
         </label>
       </div>
     </div>
 
+    <div class="card" id="cross-check" style="display: none;">
+      <h3>Cross-Check</h3>
+      <div id="cross-check-results" style="max-height: 300px; overflow-y: auto; font-size: 12px;"></div>
+      <button id="clear-cross-check-btn" type="button" style="margin-top: 10px; padding: 4px 8px; font-size: 12px;">Clear</button>
+      <button id="export-cross-check-json-btn" type="button" style="margin-top: 10px; padding: 4px 8px; font-size: 12px;">Export JSON</button>
+      <button id="export-cross-check-csv-btn" type="button" style="margin-top: 10px; padding: 4px 8px; font-size: 12px;">Export CSV</button>
+    </div>
+
+    <div class="card" id="tile-inspector" style="display: none;">
+      <h3>Tile Inspector</h3>
+      <div id="tile-inspector-content" style="font-size: 12px;"></div>
+    </div>
+
     <div class="card" id="performance-stats" style="display: none;">
       <h3>Performance Metrics</h3>
       <div id="perf-summary" style="margin-bottom: 10px; font-size: 14px;">
         <div>Total Tiles: <span id="total-tiles">0</span></div>
         <div>Avg Total Time: <span id="avg-total">-</span>ms</div>
+        <div>Avg Queue Wait: <span id="avg-queue">-</span>ms</div>
         <div>Avg Fetch Time: <span id="avg-fetch">-</span>ms</div>
         <div>Avg Convert Time: <span id="avg-convert">-</span>ms</div>
+        <div>Cache Hits: <span id="cache-hits">-</span></div>
+        <div>Cancelled Tiles: <span id="cancelled-tiles">0</span></div>
+        <div>Overzoomed Tiles: <span id="overzoomed-tiles">0</span></div>
+        <div>Samples: <span id="perf-samples">0</span>
+          (keep last <input type="number" id="perf-retention" min="1" step="100" style="width: 70px;">)</div>
       </div>
+      <div id="perf-by-method" style="margin-bottom: 10px; font-size: 12px;"></div>
+      <div id="perf-by-zoom" style="margin-bottom: 10px; font-size: 12px; max-height: 150px; overflow-y: auto;"></div>
+      <div id="perf-histogram" style="margin-bottom: 10px; font-size: 11px;"></div>
       <div id="perf-details" style="max-height: 200px; overflow-y: auto; font-size: 12px; font-family: monospace;"></div>
       <button id="clear-perf-btn" type="button" style="margin-top: 10px; padding: 4px 8px; font-size: 12px;">Clear Metrics</button>
+      <button id="export-perf-json-btn" type="button" style="margin-top: 10px; padding: 4px 8px; font-size: 12px;">Export JSON</button>
+      <button id="export-perf-csv-btn" type="button" style="margin-top: 10px; padding: 4px 8px; font-size: 12px;">Export CSV</button>
     </div>
   </div>
 
@@ -101,29 +209,60 @@ const urlInput = document.querySelector<HTMLInputElement>('#url-input')!
 const tableNameInput = document.querySelector<HTMLInputElement>('#table-name')!
 const loadBtn = document.querySelector<HTMLButtonElement>('#load-btn')!
 const loadSampleBtn = document.querySelector<HTMLButtonElement>('#load-sample-btn')!
+const fileInput = document.querySelector<HTMLInputElement>('#file-input')!
+const dropZone = document.querySelector<HTMLDivElement>('#drop-zone')!
 const mapLayersCard = document.querySelector<HTMLDivElement>('#map-layers')!
 const layerList = document.querySelector<HTMLDivElement>('#layer-list')!
+const exportCard = document.querySelector<HTMLDivElement>('#export-tiles')!
+const exportLayerSelect = document.querySelector<HTMLSelectElement>('#export-layer')!
+const exportPMTilesBtn = document.querySelector<HTMLButtonElement>('#export-pmtiles-btn')!
+const exportMBTilesBtn = document.querySelector<HTMLButtonElement>('#export-mbtiles-btn')!
+const exportProgress = document.querySelector<HTMLDivElement>('#export-progress')!
 
 let loadedTables: string[] = []
 
+// Tables with more rows than this are clustered at low zooms when they hold points
+const CLUSTER_ROW_THRESHOLD = 10000
+
+async function updatePersistentCacheSize() {
+  const sizeEl = document.querySelector<HTMLSpanElement>('#persistent-cache-size')!
+  try {
+    const stats = await getPersistentTileCacheStats()
+    sizeEl.textContent = `${stats.entries} tiles, ${(stats.bytes / 1024 / 1024).toFixed(2)}MB of ${(stats.maxBytes / 1024 / 1024).toFixed(0)}MB`
+  } catch (error) {
+    sizeEl.textContent = 'unavailable'
+  }
+}
+
 function updateLayerList() {
   const layers = getActiveLayers()
   if (layers.length === 0) {
     mapLayersCard.style.display = 'none'
+    exportCard.style.display = 'none'
     return
   }
 
   mapLayersCard.style.display = 'block'
+  exportCard.style.display = 'block'
+  exportLayerSelect.innerHTML = layers.map(layer => `
+    <option value="${layer.id}">${layer.tableName} (${layer.geometryColumn})</option>
+  `).join('')
   layerList.innerHTML = layers.map(layer => `
     <div style="display: flex; align-items: center; margin: 5px 0;">
       <input type="checkbox" id="vis-${layer.id}" ${layer.visible ? 'checked' : ''}
         style="margin-right: 10px;">
       <label for="vis-${layer.id}" style="flex: 1; cursor: pointer;">
-        ${layer.tableName} (${layer.geometryColumn})
+        ${layer.tableName} (${layer.geometryColumn}, ${layer.sourceCrs})
       </label>
+      <button class="prepare-layer" data-id="${layer.id}"
+        title="Materialize a Web Mercator geometry column for faster native tiles"
+        style="padding: 4px 8px; font-size: 12px; margin-right: 5px;">${layer.mercatorGeometryColumn ? 'Re-prepare' : 'Prepare'}</button>
       <button class="remove-layer" data-id="${layer.id}"
         style="padding: 4px 8px; font-size: 12px;">Remove</button>
     </div>
+    <input type="text" class="layer-filter" data-id="${layer.id}" value="${escapeHtml(layer.filter ?? '')}"
+      placeholder="SQL filter, e.g. population > 100000"
+      style="width: 100%; margin-bottom: 5px; padding: 4px; font-size: 12px; font-family: monospace; box-sizing: border-box;">
   `).join('')
 
   // Add event listeners
@@ -135,6 +274,44 @@ function updateLayerList() {
     })
   })
 
+  document.querySelectorAll<HTMLInputElement>('.layer-filter').forEach(input => {
+    // Apply on Enter or when the input loses focus
+    input.addEventListener('change', async () => {
+      const id = input.getAttribute('data-id')
+      const map = getMap()
+      if (!id || !map) return
+
+      try {
+        await updateDuckDBLayerFilter(map, id, input.value)
+        input.style.borderColor = ''
+        input.title = ''
+      } catch (error) {
+        console.error('Failed to update layer filter:', error)
+        input.style.borderColor = '#ef4444'
+        input.title = error instanceof Error ? error.message : String(error)
+      }
+    })
+  })
+
+  document.querySelectorAll('.prepare-layer').forEach(btn => {
+    btn.addEventListener('click', async (e) => {
+      const button = e.target as HTMLButtonElement
+      const id = button.getAttribute('data-id')
+      const map = getMap()
+      if (!id || !map) return
+
+      button.disabled = true
+      button.textContent = 'Preparing...'
+      try {
+        await prepareLayerForTiling(map, id)
+      } catch (error) {
+        console.error('Failed to prepare layer for tiling:', error)
+        alert(`Failed to prepare layer: ${error instanceof Error ? error.message : error}`)
+      }
+      updateLayerList()
+    })
+  })
+
   document.querySelectorAll('.remove-layer').forEach(btn => {
     btn.addEventListener('click', async (e) => {
       const id = (e.target as HTMLElement).getAttribute('data-id')
@@ -149,6 +326,36 @@ function updateLayerList() {
   })
 }
 
+// One radio button per registered tile generator
+function renderGeneratorOptions(onChange: (name: string) => void) {
+  const container = document.getElementById('mvt-methods')!
+  container.innerHTML = getTileGenerators().map(generator => `
+    <label style="display: flex; align-items: center; margin-bottom: 8px; cursor: pointer;">
+      <input type="radio" name="mvt-method" value="${escapeHtml(generator.name)}"
+        ${generator.name === getDefaultTileGenerator() ? 'checked' : ''} style="margin-right: 8px;">
+      <div>
+        <strong>${generator.title}</strong>
+        <div style="font-size: 12px; color: #888;">${generator.description}</div>
+      </div>
+    </label>
+  `).join('')
+
+  container.querySelectorAll<HTMLInputElement>('input[name="mvt-method"]').forEach(radio => {
+    radio.addEventListener('change', () => {
+      if (radio.checked) onChange(radio.value)
+    })
+  })
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
 // Initialize everything on page load
 (async () => {
   try {
@@ -168,10 +375,14 @@ function updateLayerList() {
       console.error('❌ Could not load spatial extension', error)
     }
 
+    // Open tile connections before the first tiles are requested
+    await warmConnectionPool()
+
     console.log('Ready to load data!')
 
     loadBtn.disabled = false
     loadSampleBtn.disabled = false
+    fileInput.disabled = false
 
     // Initialize Map and protocol
     initializeMap()
@@ -187,10 +398,25 @@ function updateLayerList() {
       })
     }
 
-    // Set up MVT method toggle with automatic map refresh
-    const mvtGeoJsonRadio = document.getElementById('mvt-geojson') as HTMLInputElement
-    const mvtNativeRadio = document.getElementById('mvt-native') as HTMLInputElement
+    // Set up metrics retention and raw sample export
+    const retentionInput = document.querySelector<HTMLInputElement>('#perf-retention')!
+    retentionInput.value = performanceTracker.getRetention().toString()
+    retentionInput.addEventListener('change', () => {
+      const maxSamples = parseInt(retentionInput.value)
+      if (maxSamples >= 1) {
+        performanceTracker.setRetention(maxSamples)
+      } else {
+        retentionInput.value = performanceTracker.getRetention().toString()
+      }
+    })
+    for (const format of ['json', 'csv'] as const) {
+      document.getElementById(`export-perf-${format}-btn`)!.addEventListener('click', () => {
+        const type = format === 'json' ? 'application/json' : 'text/csv'
+        downloadBlob(new Blob([performanceTracker.exportSamples(format)], { type }), `tile-metrics.${format}`)
+      })
+    }
 
+    // Set up the tile generator picker with automatic map refresh
     const refreshMapLayers = async () => {
       const map = getMap()
       if (map) {
@@ -200,7 +426,16 @@ function updateLayerList() {
         const layerConfigs = layers.map(layer => ({
           tableName: layer.tableName,
           geometryColumn: layer.geometryColumn,
-          propertyColumns: layer.propertyColumns
+          propertyColumns: layer.propertyColumns,
+          sourceCrs: layer.sourceCrs,
+          mercatorGeometryColumn: layer.mercatorGeometryColumn,
+          filter: layer.filter,
+          idColumn: layer.idColumn,
+          cluster: layer.cluster,
+          grid: layer.grid,
+          gridStyle: layer.gridStyle,
+          maxDataZoom: layer.maxDataZoom,
+          generator: layer.generator
         }))
 
         // Remove all layers
@@ -209,7 +444,17 @@ function updateLayerList() {
 
         // Re-add all layers with new MVT method
         const addPromises = layerConfigs.map(config =>
-          addDuckDBLayer(map, config.tableName, config.geometryColumn, config.propertyColumns)
+          addDuckDBLayer(map, config.tableName, config.geometryColumn, config.propertyColumns, {
+            sourceCrs: config.sourceCrs,
+            mercatorGeometryColumn: config.mercatorGeometryColumn,
+            filter: config.filter,
+            idColumn: config.idColumn ?? null,
+            cluster: config.cluster,
+            grid: config.grid,
+            gridStyle: config.gridStyle,
+            maxDataZoom: config.maxDataZoom,
+            generator: config.generator
+          })
         )
         await Promise.all(addPromises)
 
@@ -219,22 +464,12 @@ function updateLayerList() {
         console.log('Map layers refreshed with new MVT generation method')
       }
 
-      // Clear performance metrics for fresh comparison
-      performanceTracker.clear()
+      // Metrics are kept, so the per-method averages compare generators side by side
     }
 
-    mvtGeoJsonRadio?.addEventListener('change', () => {
-      if (mvtGeoJsonRadio.checked) {
-        setMVTMethod(false)
-        refreshMapLayers()
-      }
-    })
-
-    mvtNativeRadio?.addEventListener('change', () => {
-      if (mvtNativeRadio.checked) {
-        setMVTMethod(true)
-        refreshMapLayers()
-      }
+    renderGeneratorOptions(name => {
+      setDefaultTileGenerator(name)
+      refreshMapLayers()
     })
 
     // Set up spatial index toggle with automatic index creation/deletion and metrics reset
@@ -252,94 +487,262 @@ function updateLayerList() {
       console.log('Performance metrics cleared after spatial index toggle')
     })
 
+    // Set up tile cache controls
+    const persistentCacheCheckbox = document.getElementById('persistent-cache-enabled') as HTMLInputElement
+    const purgeCacheBtn = document.getElementById('purge-cache-btn')
+
+    persistentCacheCheckbox?.addEventListener('change', () => {
+      setPersistentTileCacheEnabled(persistentCacheCheckbox.checked)
+    })
+
+    purgeCacheBtn?.addEventListener('click', async () => {
+      clearTileCache()
+      await purgePersistedTiles()
+      await updatePersistentCacheSize()
+      console.log('Tile cache cleared')
+    })
+
+    updatePersistentCacheSize()
+
+    // Set up the tile timing overlay
+    const tileDebugCheckbox = document.getElementById('tile-debug-overlay') as HTMLInputElement
+
+    tileDebugCheckbox?.addEventListener('change', () => {
+      const map = getMap()
+      if (!map) return
+      if (tileDebugCheckbox.checked) {
+        enableTileDebugOverlay(map)
+      } else {
+        disableTileDebugOverlay()
+      }
+    })
+
+    // Set up the tile inspector: clicking the map inspects the tile under the cursor
+    const tileInspectorCheckbox = document.getElementById('tile-inspector-enabled') as HTMLInputElement
+    const tileInspectorCard = document.getElementById('tile-inspector')!
+    const tileInspectorContent = document.getElementById('tile-inspector-content')!
+
+    const inspectClickedTile = async (event: MapMouseEvent) => {
+      const map = getMap()!
+      // Vector tiles are requested at the rounded zoom level
+      const z = Math.max(0, Math.min(22, Math.round(map.getZoom())))
+      const { x, y } = lngLatToTile(event.lngLat.lng, event.lngLat.lat, z)
+      const layers = getActiveLayers().filter(layer => layer.visible)
+
+      tileInspectorCard.style.display = 'block'
+      if (layers.length === 0) {
+        tileInspectorContent.textContent = 'No visible layers to inspect'
+        return
+      }
+      tileInspectorContent.textContent = `Inspecting ${z}/${x}/${y}...`
+
+      try {
+        const inspections = await Promise.all(layers.map(layer => inspectTile(layer.id, { z, x, y })))
+        tileInspectorContent.innerHTML = inspections.map(renderTileInspection).join('')
+      } catch (error) {
+        console.error('Failed to inspect tile:', error)
+        tileInspectorContent.textContent = `Failed to inspect tile: ${error}`
+      }
+    }
+
+    // Set up the generator cross-check; results refresh as tiles are checked
+    const crossCheckCheckbox = document.getElementById('cross-check-enabled') as HTMLInputElement
+    const crossCheckCard = document.getElementById('cross-check')!
+    const crossCheckResults = document.getElementById('cross-check-results')!
+
+    subscribeCrossCheck(() => {
+      crossCheckResults.innerHTML = renderCrossCheckResults()
+    })
+    crossCheckCheckbox?.addEventListener('change', async () => {
+      setCrossCheckEnabled(crossCheckCheckbox.checked)
+      crossCheckCard.style.display = crossCheckCheckbox.checked ? 'block' : 'none'
+      crossCheckResults.innerHTML = renderCrossCheckResults()
+      // Reload the visible tiles so they are checked right away
+      if (crossCheckCheckbox.checked) {
+        await refreshMapLayers()
+      }
+    })
+    document.getElementById('clear-cross-check-btn')!.addEventListener('click', () => {
+      clearCrossCheckResults()
+    })
+    for (const format of ['json', 'csv'] as const) {
+      document.getElementById(`export-cross-check-${format}-btn`)!.addEventListener('click', () => {
+        const type = format === 'json' ? 'application/json' : 'text/csv'
+        downloadBlob(new Blob([exportCrossCheckReport(format)], { type }), `tile-cross-check.${format}`)
+      })
+    }
+
+    tileInspectorCheckbox?.addEventListener('change', () => {
+      const map = getMap()
+      if (!map) return
+      if (tileInspectorCheckbox.checked) {
+        map.on('click', inspectClickedTile)
+        map.getCanvas().style.cursor = 'crosshair'
+      } else {
+        map.off('click', inspectClickedTile)
+        map.getCanvas().style.cursor = ''
+        tileInspectorCard.style.display = 'none'
+      }
+    })
+
   } catch (error) {
     console.error('❌ Error initializing:', error)
     alert('Failed to initialize application. Please check console for details.')
   }
 })()
 
-loadBtn.addEventListener('click', async () => {
-  const url = urlInput.value.trim()
-  const tableName = tableNameInput.value.trim() || 'data'
-
-  if (!url) {
-    alert('Please enter a URL')
-    return
-  }
+/**
+ * Create a table from a data source and add it to the map if it has geometries
+ */
+async function loadTable(tableName: string, source: DataSource) {
+  console.log(`Loading data from: ${source.url}`)
+  console.log(`Creating table: ${tableName}`)
 
-  try {
-    console.log(`Loading data from: ${url}`)
-    console.log(`Creating table: ${tableName}`)
-
-    // Determine file type from URL
-    let query = ''
-    if (url.endsWith('.csv') || url.includes('.csv?')) {
-      query = `CREATE OR REPLACE TABLE ${tableName} AS SELECT * FROM read_csv_auto('${url}')`
-    } else if (url.endsWith('.json') || url.includes('.json?')) {
-      query = `CREATE OR REPLACE TABLE ${tableName} AS SELECT * FROM read_json_auto('${url}')`
-    } else if (url.endsWith('.parquet') || url.includes('.parquet?')) {
-      query = `CREATE OR REPLACE TABLE ${tableName} AS SELECT * FROM read_parquet('${url}')`
-    } else if (url.endsWith('.geojson') || url.includes('geojson')) {
-      // For GeoJSON, use ST_Read
-      query = `CREATE OR REPLACE TABLE ${tableName} AS SELECT * FROM ST_Read('${url}')`
-    } else {
-      // Try to auto-detect
-      query = `CREATE OR REPLACE TABLE ${tableName} AS SELECT * FROM '${url}'`
-    }
+  // Names derived from files may be keywords, e.g. "order"
+  const table = `"${tableName.replace(/"/g, '""')}"`
+  await executeSql(`CREATE OR REPLACE TABLE ${table} AS SELECT * FROM ${getReaderSql(source)}`)
 
-    await executeSql(query)
+  // Layers showing the replaced table lost its prepared column, indexes and cached tiles
+  await resetLayersForReplacedTable(getMap(), tableName)
 
-    // Get row count
-    const countResult = await executeSql(`SELECT COUNT(*) as count FROM ${tableName}`)
-    const rowCount = countResult[0].count
+  // Get row count
+  const countResult = await executeSql(`SELECT COUNT(*) as count FROM ${table}`)
+  const rowCount = countResult[0].count
 
-    // Get column info
-    const schemaResult = await executeSql(`DESCRIBE ${tableName}`)
+  // Get column info
+  const schemaResult = await executeSql(`DESCRIBE ${table}`)
 
-    console.log(`✅ Table '${tableName}' created successfully!`)
-    console.log(`Rows: ${rowCount}`)
-    console.log('Schema:', schemaResult)
+  console.log(`✅ Table '${tableName}' created successfully!`)
+  console.log(`Rows: ${rowCount}`)
+  console.log('Schema:', schemaResult)
 
-    // Check for geometry columns and auto-visualize
-    const geomColumns = await detectGeometryColumns(tableName)
-    if (geomColumns.length > 0) {
-      console.log(`🗺️ Spatial data detected! Geometry columns: ${geomColumns.join(', ')}`)
+  // Check for geometry columns and auto-visualize
+  const geomColumns = await detectGeometryColumns(tableName)
+  if (geomColumns.length > 0) {
+    console.log(`🗺️ Spatial data detected! Geometry columns: ${geomColumns.join(', ')}`)
 
-      // Auto-visualize spatial data
-      const map = getMap()
-      if (map) {
-        console.log('Auto-visualizing spatial data...')
+    // Auto-visualize spatial data
+    const map = getMap()
+    if (map) {
+      console.log('Auto-visualizing spatial data...')
+
+      // Get all columns
+      const allColumns = await getTableColumns(tableName)
+      const propertyColumns = allColumns.filter(col => !geomColumns.includes(col))
+
+      // Use the first geometry column
+      const geomColumn = geomColumns[0]
+      // Read the CRS from the file metadata where the format has it
+      const sourceCrs = await detectSourceCrs(tableName, geomColumn, source)
+      // Large point tables would hit the per-tile feature limit at low zooms
+      const cluster = rowCount > CLUSTER_ROW_THRESHOLD ? { maxZoom: 12 } : undefined
+      const layerId = await addDuckDBLayer(map, tableName, geomColumn, propertyColumns, { sourceCrs, cluster })
+
+      if (layerId) {
+        console.log(`✅ Layer automatically added to map: ${layerId}`)
+        updateLayerList()
+      }
+    }
+  } else {
+    // Show clear error message when no geometry column is detected
+    console.warn(`⚠️ No geometry columns found in table '${tableName}'`)
+    alert(`No spatial data detected in table '${tableName}'.\n\nThe table was loaded successfully but does not contain geometry columns that can be visualized on the map.\n\nTo visualize data on the map, ensure your data contains geometry columns (POINT, LINESTRING, POLYGON, etc.).`)
+  }
 
-        // Get all columns
-        const allColumns = await getTableColumns(tableName)
-        const propertyColumns = allColumns.filter(col => !geomColumns.includes(col))
+  // Add to loaded tables list if not already there
+  if (!loadedTables.includes(tableName)) {
+    loadedTables.push(tableName)
+  }
+}
 
-        // Use the first geometry column
-        const geomColumn = geomColumns[0]
-        const layerId = await addDuckDBLayer(map, tableName, geomColumn, propertyColumns)
+loadBtn.addEventListener('click', async () => {
+  const url = urlInput.value.trim()
+  const tableName = tableNameInput.value.trim() || 'data'
 
-        if (layerId) {
-          console.log(`✅ Layer automatically added to map: ${layerId}`)
-          updateLayerList()
-        }
-      }
-    } else {
-      // Show clear error message when no geometry column is detected
-      console.warn(`⚠️ No geometry columns found in table '${tableName}'`)
-      alert(`No spatial data detected in table '${tableName}'.\n\nThe table was loaded successfully but does not contain geometry columns that can be visualized on the map.\n\nTo visualize data on the map, ensure your data contains geometry columns (POINT, LINESTRING, POLYGON, etc.).`)
-    }
+  if (!url) {
+    alert('Please enter a URL')
+    return
+  }
 
-    // Add to loaded tables list if not already there
-    if (!loadedTables.includes(tableName)) {
-      loadedTables.push(tableName)
-    }
+  // Determine file type from URL
+  let reader: DataSource['reader']
+  if (url.endsWith('.csv') || url.includes('.csv?')) {
+    reader = 'csv'
+  } else if (url.endsWith('.json') || url.includes('.json?')) {
+    reader = 'json'
+  } else if (url.endsWith('.parquet') || url.includes('.parquet?')) {
+    reader = 'parquet'
+  } else if (url.endsWith('.geojson') || url.includes('geojson')) {
+    // For GeoJSON, use ST_Read
+    reader = 'st_read'
+  } else {
+    // Try to auto-detect
+    reader = 'auto'
+  }
 
+  try {
+    await loadTable(tableName, { url, reader })
   } catch (error) {
     console.error('❌ Error loading data:', error)
     alert(`Failed to load data: ${error}`)
   }
 })
 
+/**
+ * Load local files, each into a table named after the file
+ *
+ * Sidecar files like a shapefile's .shx and .dbf are only registered, for
+ * the reader of their primary file.
+ */
+async function loadLocalFiles(files: FileList | File[]) {
+  let sources: LocalFileSource[]
+  try {
+    sources = await registerLocalFiles(Array.from(files))
+  } catch (error) {
+    console.error('❌ Error registering files:', error)
+    alert(`Failed to load files: ${error}`)
+    return
+  }
+
+  for (const { file, source } of sources) {
+    try {
+      await loadTable(getTableNameForFile(file), source)
+    } catch (error) {
+      console.error(`❌ Error loading ${file.name}:`, error)
+      alert(`Failed to load ${file.name}: ${error}`)
+    }
+  }
+}
+
+fileInput.addEventListener('change', async () => {
+  if (fileInput.files) {
+    await loadLocalFiles(fileInput.files)
+  }
+  // Allow picking the same file again
+  fileInput.value = ''
+})
+
+// Files dropped next to the drop zone would otherwise be opened by the browser
+window.addEventListener('dragover', (e) => e.preventDefault())
+window.addEventListener('drop', (e) => e.preventDefault())
+
+dropZone.addEventListener('dragover', (e) => {
+  e.preventDefault()
+  if (!fileInput.disabled) {
+    dropZone.classList.add('dragover')
+  }
+})
+dropZone.addEventListener('dragleave', () => {
+  dropZone.classList.remove('dragover')
+})
+dropZone.addEventListener('drop', async (e) => {
+  // Keep the browser from opening the file
+  e.preventDefault()
+  dropZone.classList.remove('dragover')
+  if (fileInput.disabled || !e.dataTransfer?.files.length) return
+  await loadLocalFiles(e.dataTransfer.files)
+})
+
 // Allow Enter key to submit in URL input
 urlInput.addEventListener('keypress', (e) => {
   if (e.key === 'Enter' && !loadBtn.disabled) {
@@ -445,6 +848,11 @@ loadSampleBtn.addEventListener('click', async () => {
     await executeSql(linesQuery)
     console.log('✅ Sample lines table created!')
 
+    // Layers showing the replaced tables lost their prepared columns, indexes and cached tiles
+    for (const table of ['sample_points', 'sample_polygons', 'sample_lines']) {
+      await resetLayersForReplacedTable(getMap(), table)
+    }
+
     // Show sample data
     const pointResults = await executeSql('SELECT COUNT(*) as count FROM sample_points')
     const polygonResults = await executeSql('SELECT COUNT(*) as count FROM sample_polygons')
@@ -495,4 +903,53 @@ loadSampleBtn.addEventListener('click', async () => {
     console.error('❌ Error creating sample data:', error)
     alert(`Failed to create sample data: ${error}`)
   }
-})
\ No newline at end of file
+})
+
+async function exportTiles(format: 'pmtiles' | 'mbtiles') {
+  const layerId = exportLayerSelect.value
+  const config = getRegisteredLayers().get(layerId)
+  if (!config) {
+    alert('Please select a layer to export')
+    return
+  }
+
+  const minZoom = parseInt(document.querySelector<HTMLInputElement>('#export-min-zoom')!.value)
+  const maxZoom = parseInt(document.querySelector<HTMLInputElement>('#export-max-zoom')!.value)
+
+  // Optionally restrict the export to the visible map area
+  let bbox: BBox | undefined
+  const map = getMap()
+  if (map && document.querySelector<HTMLInputElement>('#export-current-view')!.checked) {
+    const bounds = map.getBounds()
+    bbox = [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]
+  }
+
+  const formatName = format === 'pmtiles' ? 'PMTiles' : 'MBTiles'
+  const exporter = format === 'pmtiles' ? exportPMTiles : exportMBTiles
+
+  exportPMTilesBtn.disabled = true
+  exportMBTilesBtn.disabled = true
+  try {
+    const blob = await exporter(config, {
+      minZoom,
+      maxZoom,
+      bbox,
+      onProgress: (done, total) => {
+        exportProgress.textContent = `Generating tiles: ${done}/${total}`
+      }
+    })
+    exportProgress.textContent = `Exported ${(blob.size / 1024).toFixed(2)}KB`
+    downloadBlob(blob, `${config.tableName}.${format}`)
+    console.log(`✅ Exported ${config.tableName} to ${formatName}`)
+  } catch (error) {
+    console.error(`❌ Error exporting ${formatName}:`, error)
+    exportProgress.textContent = ''
+    alert(`Failed to export ${formatName}: ${error}`)
+  } finally {
+    exportPMTilesBtn.disabled = false
+    exportMBTilesBtn.disabled = false
+  }
+}
+
+exportPMTilesBtn.addEventListener('click', () => exportTiles('pmtiles'))
+exportMBTilesBtn.addEventListener('click', () => exportTiles('mbtiles'))
@@ -1,6 +1,12 @@
 import maplibregl from 'maplibre-gl';
-import { registerDuckDBLayer, unregisterDuckDBLayer } from './duckdb-protocol';
+import { registerDuckDBLayer, unregisterDuckDBLayer, invalidateDuckDBTable } from './duckdb-protocol';
+import type { DuckDBLayerConfig } from './duckdb-protocol';
 import { executeSql } from './duckdb';
+import { DEFAULT_CRS, crsFromProjJson, normalizeCrs, transformSql } from './crs';
+import { getPropertyKind } from './property-encoding';
+import { getTileJSONUrl } from './tilejson';
+import type { ClusterOptions } from './clustering';
+import type { GridAggregate, GridAggregationOptions } from './grid-aggregation';
 
 export interface LayerInfo {
   id: string;
@@ -9,6 +15,41 @@ export interface LayerInfo {
   propertyColumns: string[];
   visible: boolean;
   indexName?: string;
+  sourceCrs: string;
+  mercatorGeometryColumn?: string;  // Set once the layer is prepared for tiling
+  mercatorIndexName?: string;
+  filter?: string;
+  idColumn?: string;
+  cluster?: ClusterOptions;
+  grid?: GridAggregationOptions;
+  gridStyle?: GridStyle;
+  maxDataZoom?: number;
+  generator?: string;
+}
+
+export interface DuckDBLayerOptions {
+  sourceCrs?: string;  // CRS of the geometry column (auto-detected if omitted)
+  mercatorGeometryColumn?: string;  // Column from an earlier prepareLayerForTiling
+  filter?: string;  // SQL filter expression, see updateDuckDBLayerFilter
+  idColumn?: string | null;  // Feature id column (auto-detected if omitted, null for none)
+  cluster?: ClusterOptions;  // Cluster points at low zooms (point layers only)
+  grid?: GridAggregationOptions;  // Show aggregated bins instead of features
+  gridStyle?: GridStyle;  // How bins are drawn (defaults to choropleth)
+  maxDataZoom?: number;  // Cut tiles above this zoom from cached ancestors instead of querying
+  generator?: string;  // Registered tile generator (defaults to the default generator)
+}
+
+export type GridStyle = 'choropleth' | 'heatmap';
+
+// Column name parsed after a filter or aggregate expression, see assertSingleExpression
+const EXPRESSION_END_MARKER = '__expression_end__';
+
+/**
+ * Where a table's data was loaded from, used to read CRS metadata
+ */
+export interface DataSource {
+  url: string;
+  reader: 'csv' | 'json' | 'parquet' | 'st_read' | 'auto';
 }
 
 let spatialIndexEnabled = true;
@@ -36,6 +77,12 @@ export async function toggleSpatialIndexes(enabled: boolean): Promise<void> {
           layer.indexName = indexName;
         }
       }
+      if (layer.mercatorGeometryColumn && !layer.mercatorIndexName) {
+        const indexName = await createSpatialIndex(layer.tableName, layer.mercatorGeometryColumn);
+        if (indexName) {
+          layer.mercatorIndexName = indexName;
+        }
+      }
     }
   } else {
     // Drop all indexes
@@ -44,6 +91,10 @@ export async function toggleSpatialIndexes(enabled: boolean): Promise<void> {
         await dropSpatialIndex(layer.indexName);
         layer.indexName = undefined;
       }
+      if (layer.mercatorIndexName) {
+        await dropSpatialIndex(layer.mercatorIndexName);
+        layer.mercatorIndexName = undefined;
+      }
     }
   }
 }
@@ -63,7 +114,9 @@ export async function detectGeometryColumns(tableName: string): Promise<string[]
         AND data_type ILIKE '%geometry%'
     `);
 
-    return result.map(row => row.column_name);
+    // Leave out the Web Mercator copies added by prepareLayerForTiling
+    const columns: string[] = result.map(row => row.column_name);
+    return columns.filter(column => !isMercatorColumn(column, columns));
   } catch (error) {
     console.error('Error detecting geometry columns:', error);
     return [];
@@ -89,6 +142,198 @@ export async function getTableColumns(tableName: string): Promise<string[]> {
   }
 }
 
+/**
+ * Get the bounds of a geometry column in WGS84 as [minLng, minLat, maxLng, maxLat]
+ *
+ * For other CRSs the extent is computed in the source CRS and its corners
+ * are transformed, which is much cheaper than transforming every geometry.
+ */
+export async function getLayerBounds(
+  tableName: string,
+  geometryColumn: string,
+  sourceCrs: string = DEFAULT_CRS
+): Promise<[number, number, number, number] | null> {
+  try {
+    const envelope = transformSql('ST_MakeEnvelope(min_x, min_y, max_x, max_y)', sourceCrs, DEFAULT_CRS);
+    const boundsResult = await executeSql(`
+      WITH extent AS (
+        SELECT
+          MIN(ST_XMin("${geometryColumn}")) as min_x,
+          MIN(ST_YMin("${geometryColumn}")) as min_y,
+          MAX(ST_XMax("${geometryColumn}")) as max_x,
+          MAX(ST_YMax("${geometryColumn}")) as max_y
+        FROM "${tableName}"
+      )
+      SELECT
+        ST_XMin(bounds) as min_x,
+        ST_YMin(bounds) as min_y,
+        ST_XMax(bounds) as max_x,
+        ST_YMax(bounds) as max_y
+      FROM (SELECT ${envelope} as bounds FROM extent WHERE min_x IS NOT NULL)
+    `);
+
+    if (boundsResult.length > 0 && boundsResult[0].min_x !== null) {
+      const bounds = boundsResult[0];
+      return [bounds.min_x, bounds.min_y, bounds.max_x, bounds.max_y];
+    }
+  } catch (error) {
+    console.warn('Could not compute layer bounds');
+  }
+  return null;
+}
+
+/**
+ * Detect the CRS of a geometry column
+ *
+ * Checks, in order: a CRS on the GEOMETRY column type, GeoParquet `geo`
+ * metadata, and the layer info reported by ST_Read_Meta. Falls back to
+ * EPSG:4326 when none is available.
+ */
+export async function detectSourceCrs(
+  tableName: string,
+  geometryColumn: string,
+  source?: DataSource
+): Promise<string> {
+  // GEOMETRY('EPSG:3857') on DuckDB versions with CRS-aware geometry types
+  try {
+    const typeResult = await executeSql(`
+      SELECT data_type
+      FROM information_schema.columns
+      WHERE table_name = '${tableName}' AND column_name = '${geometryColumn}'
+    `);
+    const typeMatch = typeResult[0]?.data_type?.match(/^GEOMETRY\('([^']+)'\)$/i);
+    if (typeMatch) {
+      return normalizeCrs(typeMatch[1]);
+    }
+  } catch (error) {
+    console.warn('Could not read geometry column type:', error);
+  }
+
+  if (source?.reader === 'parquet' || (source?.reader === 'auto' && /\.parquet(\?|$)/.test(source.url))) {
+    try {
+      const metaResult = await executeSql(`
+        SELECT decode(value) as geo
+        FROM parquet_kv_metadata('${source.url}')
+        WHERE decode(key) = 'geo'
+      `);
+      if (metaResult.length > 0) {
+        const column = JSON.parse(metaResult[0].geo).columns?.[geometryColumn];
+        if (column) {
+          // GeoParquet: a missing crs means OGC:CRS84
+          if (!column.crs) return DEFAULT_CRS;
+          const crs = typeof column.crs === 'string' ? normalizeCrs(column.crs) : crsFromProjJson(column.crs);
+          if (crs) return crs;
+        }
+      }
+    } catch (error) {
+      console.warn('Could not read GeoParquet metadata:', error);
+    }
+  }
+
+  if (source?.reader === 'st_read') {
+    try {
+      // CRS of the first geometry field of the first layer
+      const metaResult = await executeSql(`
+        SELECT
+          layers[1].geometry_fields[1].crs.auth_name as auth_name,
+          layers[1].geometry_fields[1].crs.auth_code as auth_code
+        FROM ST_Read_Meta('${source.url}')
+      `);
+      const crs = metaResult[0];
+      if (crs?.auth_name && crs?.auth_code) {
+        return normalizeCrs(`${crs.auth_name}:${crs.auth_code}`);
+      }
+    } catch (error) {
+      console.warn('Could not read ST_Read layer info:', error);
+    }
+  }
+
+  return DEFAULT_CRS;
+}
+
+// Column names that usually hold a feature id, in order of preference
+const ID_COLUMN_NAMES = ['id', 'fid', 'ogc_fid', 'objectid', 'gid'];
+
+/**
+ * Detect a column to use as the feature id
+ *
+ * A single-column integer primary key is used as is. Integer columns with
+ * a conventional id name are only considered with `scan`, as they must be
+ * checked to be unique, non-null and non-negative (MVT feature ids are
+ * unsigned) with a full scan of the table.
+ */
+export async function detectIdColumn(
+  tableName: string,
+  options: { scan?: boolean } = {}
+): Promise<string | null> {
+  try {
+    const columnsResult = await executeSql(`
+      SELECT column_name, data_type
+      FROM information_schema.columns
+      WHERE table_name = '${tableName}'
+    `);
+    const integerColumns: string[] = columnsResult
+      .filter(row => getPropertyKind(row.data_type) === 'integer')
+      .map(row => row.column_name);
+
+    const primaryKeyResult = await executeSql(`
+      SELECT constraint_column_names
+      FROM duckdb_constraints()
+      WHERE table_name = '${tableName}' AND constraint_type = 'PRIMARY KEY'
+    `);
+    const primaryKey = primaryKeyResult[0]?.constraint_column_names?.toArray();
+
+    // The constraint guarantees unique, non-null values without scanning
+    if (primaryKey?.length === 1 && integerColumns.includes(primaryKey[0])) {
+      return primaryKey[0] as string;
+    }
+    if (!options.scan) {
+      return null;
+    }
+
+    const candidates = [
+      ...ID_COLUMN_NAMES.flatMap(name => integerColumns.filter(col => col.toLowerCase() === name)),
+      ...integerColumns.filter(col => col.toLowerCase() === `${tableName.toLowerCase()}_id`)
+    ];
+
+    for (const column of candidates) {
+      const checkResult = await executeSql(`
+        SELECT
+          COUNT(DISTINCT "${column}") = COUNT(*) AND COUNT("${column}") = COUNT(*) AS is_unique,
+          COALESCE(MIN("${column}") >= 0, true) AS non_negative
+        FROM "${tableName}"
+      `);
+      if (checkResult[0]?.is_unique && checkResult[0]?.non_negative) {
+        return column;
+      }
+    }
+  } catch (error) {
+    console.warn('Could not detect id column:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Look for an id column by name once a layer is shown
+ *
+ * Verifying a candidate scans the whole table, which would delay showing
+ * large tables. If one is found, the layer's tiles are regenerated with ids.
+ */
+async function detectIdColumnAfterAdding(map: maplibregl.Map, layerId: string): Promise<void> {
+  const layerInfo = activeLayers.get(layerId);
+  if (!layerInfo) return;
+
+  const idColumn = await detectIdColumn(layerInfo.tableName, { scan: true });
+  // The layer may have been removed or given an id column meanwhile
+  if (!idColumn || activeLayers.get(layerId) !== layerInfo || layerInfo.idColumn) return;
+
+  layerInfo.idColumn = idColumn;
+  registerDuckDBLayer(layerId, toDuckDBLayerConfig(layerInfo));
+  reloadLayerSource(map, layerId);
+  console.log(`Detected id column of ${layerId}: ${idColumn}`);
+}
+
 /**
  * Create a spatial index on a geometry column
  */
@@ -147,28 +392,38 @@ export async function addDuckDBLayer(
   map: maplibregl.Map,
   tableName: string,
   geometryColumn: string,
-  propertyColumns: string[] = []
+  propertyColumns: string[] = [],
+  options: DuckDBLayerOptions = {}
 ): Promise<string | null> {
   try {
     const layerId = `duckdb-layer-${layerIdCounter++}`;
+    const sourceCrs = options.sourceCrs ?? await detectSourceCrs(tableName, geometryColumn);
 
-    // Create spatial index if enabled
-    const indexName = await createSpatialIndex(tableName, geometryColumn);
-
-    // Register the layer configuration
-    registerDuckDBLayer(layerId, {
-      tableName,
-      geometryColumn,
-      propertyColumns
-    });
+    const { mercatorGeometryColumn } = options;
+    // Heatmaps weight points, so their bins default to centroids
+    const gridStyle = options.grid ? options.gridStyle ?? 'choropleth' : undefined;
+    const grid = options.grid && {
+      geometry: gridStyle === 'heatmap' ? 'centroid' as const : 'polygon' as const,
+      ...options.grid
+    };
+    // Bins have no feature id
+    const idColumn = grid || options.idColumn === null
+      ? undefined
+      : options.idColumn ?? await detectIdColumn(tableName) ?? undefined;
+    const scanForIdColumn = !grid && options.idColumn === undefined && !idColumn;
+    const filter = options.filter?.trim() || undefined;
+    if (filter) {
+      await validateLayerFilter(tableName, filter);
+    }
+    for (const aggregate of grid?.aggregates ?? []) {
+      await validateGridAggregate(tableName, aggregate);
+    }
 
-    // Add source to map
-    map.addSource(layerId, {
-      type: 'vector',
-      tiles: [`duckdb://${layerId}/{z}/{x}/{y}.pbf`],
-      minzoom: 0,
-      maxzoom: 22
-    });
+    // Create spatial indexes if enabled
+    const indexName = await createSpatialIndex(tableName, geometryColumn);
+    const mercatorIndexName = mercatorGeometryColumn
+      ? await createSpatialIndex(tableName, mercatorGeometryColumn)
+      : null;
 
     // Determine layer type based on first geometry
     let layerType: 'fill' | 'line' | 'circle' = 'circle';
@@ -193,8 +448,45 @@ export async function addDuckDBLayer(
       console.warn('Could not determine geometry type, defaulting to circle');
     }
 
+    // Clustering only applies to point layers
+    const cluster = layerType === 'circle' && !grid ? options.cluster : undefined;
+    if (options.cluster && !cluster) {
+      console.warn(`Ignoring cluster options for non-point or grid layer: ${tableName}`);
+    }
+
+    const layerInfo: LayerInfo = {
+      id: layerId,
+      tableName,
+      geometryColumn,
+      propertyColumns,
+      visible: true,
+      indexName: indexName || undefined,
+      sourceCrs,
+      mercatorGeometryColumn,
+      mercatorIndexName: mercatorIndexName || undefined,
+      filter,
+      idColumn,
+      cluster,
+      grid,
+      gridStyle,
+      maxDataZoom: options.maxDataZoom,
+      generator: options.generator
+    };
+
+    // Register the layer configuration
+    registerDuckDBLayer(layerId, toDuckDBLayerConfig(layerInfo));
+
+    // Add source to map; tile URLs, zoom range and bounds come from the TileJSON
+    map.addSource(layerId, {
+      type: 'vector',
+      url: getTileJSONUrl(layerId)
+    });
+
     // Add appropriate layer based on geometry type with vibrant colors
-    if (layerType === 'fill') {
+    if (grid) {
+      addGridLayers(map, layerId, grid, gridStyle!);
+      layerType = 'fill';
+    } else if (layerType === 'fill') {
       // Polygon layer - vibrant purple
       map.addLayer({
         id: `${layerId}-fill`,
@@ -202,7 +494,7 @@ export async function addDuckDBLayer(
         source: layerId,
         'source-layer': 'v',
         paint: {
-          'fill-color': '#9333ea',  // Vibrant purple
+          'fill-color': highlightColor('#9333ea', '#c084fc', '#facc15'),  // Vibrant purple
           'fill-opacity': 0.7
         }
       });
@@ -213,7 +505,7 @@ export async function addDuckDBLayer(
         source: layerId,
         'source-layer': 'v',
         paint: {
-          'line-color': '#6b21a8',  // Darker purple
+          'line-color': highlightColor('#6b21a8', '#7e22ce', '#ca8a04'),  // Darker purple
           'line-width': 2
         }
       });
@@ -225,7 +517,7 @@ export async function addDuckDBLayer(
         source: layerId,
         'source-layer': 'v',
         paint: {
-          'line-color': '#10b981',  // Vibrant green
+          'line-color': highlightColor('#10b981', '#6ee7b7', '#facc15'),  // Vibrant green
           'line-width': 3
         }
       });
@@ -236,51 +528,85 @@ export async function addDuckDBLayer(
         type: 'circle',
         source: layerId,
         'source-layer': 'v',
+        // Cluster features are drawn by the cluster layers below
+        ...(cluster ? { filter: ['!', ['has', 'point_count']] as maplibregl.FilterSpecification } : {}),
         paint: {
           'circle-radius': 8,
-          'circle-color': '#f97316',  // Vibrant orange
+          'circle-color': highlightColor('#f97316', '#fdba74', '#facc15'),  // Vibrant orange
           'circle-stroke-color': '#ffffff',
           'circle-stroke-width': 2
         }
       });
+
+      if (cluster) {
+        // Clusters sized by their point count
+        map.addLayer({
+          id: `${layerId}-cluster`,
+          type: 'circle',
+          source: layerId,
+          'source-layer': 'v',
+          filter: ['has', 'point_count'],
+          paint: {
+            'circle-radius': ['step', ['get', 'point_count'], 12, 100, 18, 1000, 24, 10000, 32],
+            'circle-color': ['step', ['get', 'point_count'], '#fdba74', 100, '#fb923c', 1000, '#f97316', 10000, '#c2410c'],
+            'circle-opacity': 0.85,
+            'circle-stroke-color': '#ffffff',
+            'circle-stroke-width': 2
+          }
+        });
+
+        map.addLayer({
+          id: `${layerId}-cluster-count`,
+          type: 'symbol',
+          source: layerId,
+          'source-layer': 'v',
+          filter: ['has', 'point_count'],
+          layout: {
+            'text-field': ['number-format', ['get', 'point_count'], {}],
+            'text-font': ['Open Sans Semibold'],
+            'text-size': 12,
+            'text-allow-overlap': true
+          },
+          paint: {
+            'text-color': '#ffffff'
+          }
+        });
+
+        // Zoom into a cluster on click
+        map.on('click', `${layerId}-cluster`, (e) => {
+          map.easeTo({ center: e.lngLat, zoom: Math.min(cluster.maxZoom, map.getZoom() + 2) });
+        });
+        map.on('mouseenter', `${layerId}-cluster`, () => {
+          map.getCanvas().style.cursor = 'pointer';
+        });
+        map.on('mouseleave', `${layerId}-cluster`, () => {
+          map.getCanvas().style.cursor = '';
+        });
+      }
     }
 
     // Store layer info
-    activeLayers.set(layerId, {
-      id: layerId,
-      tableName,
-      geometryColumn,
-      propertyColumns,
-      visible: true,
-      indexName: indexName || undefined
-    });
+    activeLayers.set(layerId, layerInfo);
 
-    // Add click handler for popups
-    setupFeatureInteraction(map, layerId, layerType);
+    // Add click handler for popups (heatmaps have no features to click)
+    if (gridStyle !== 'heatmap') {
+      setupFeatureInteraction(map, layerId, layerType);
+    }
 
     // Zoom to layer bounds
-    try {
-      const boundsResult = await executeSql(`
-        SELECT
-          ST_XMin(ST_Extent("${geometryColumn}")) as min_x,
-          ST_YMin(ST_Extent("${geometryColumn}")) as min_y,
-          ST_XMax(ST_Extent("${geometryColumn}")) as max_x,
-          ST_YMax(ST_Extent("${geometryColumn}")) as max_y
-        FROM "${tableName}"
-      `);
-
-      if (boundsResult.length > 0 && boundsResult[0].min_x !== null) {
-        const bounds = boundsResult[0];
-        map.fitBounds([
-          [bounds.min_x, bounds.min_y],
-          [bounds.max_x, bounds.max_y]
-        ], { padding: 50 });
-      }
-    } catch (error) {
-      console.warn('Could not fit bounds to layer');
+    const bounds = await getLayerBounds(tableName, geometryColumn, sourceCrs);
+    if (bounds) {
+      map.fitBounds([
+        [bounds[0], bounds[1]],
+        [bounds[2], bounds[3]]
+      ], { padding: 50 });
     }
 
-    console.log(`Added DuckDB layer: ${layerId} for table ${tableName}`);
+    console.log(`Added DuckDB layer: ${layerId} for table ${tableName} (${sourceCrs}, id: ${idColumn ?? 'none'})`);
+
+    if (scanForIdColumn) {
+      void detectIdColumnAfterAdding(map, layerId);
+    }
     return layerId;
 
   } catch (error) {
@@ -304,7 +630,7 @@ export async function removeDuckDBLayer(map: maplibregl.Map, layerId: string): P
   }
 
   // Remove all related map layers
-  const mapLayers = [`${layerId}-fill`, `${layerId}-outline`, `${layerId}-line`, `${layerId}-circle`];
+  const mapLayers = getMapLayerIds(layerId);
   for (const id of mapLayers) {
     if (map.getLayer(id)) {
       map.removeLayer(id);
@@ -316,10 +642,13 @@ export async function removeDuckDBLayer(map: maplibregl.Map, layerId: string): P
     map.removeSource(layerId);
   }
 
-  // Drop spatial index if it exists
+  // Drop spatial indexes if they exist
   if (layerInfo.indexName) {
     await dropSpatialIndex(layerInfo.indexName);
   }
+  if (layerInfo.mercatorIndexName) {
+    await dropSpatialIndex(layerInfo.mercatorIndexName);
+  }
 
   // Unregister from protocol
   unregisterDuckDBLayer(layerId);
@@ -330,6 +659,232 @@ export async function removeDuckDBLayer(map: maplibregl.Map, layerId: string): P
   console.log(`Removed DuckDB layer: ${layerId}`);
 }
 
+/**
+ * Prepare a layer for tiling by materializing its geometry in Web Mercator
+ *
+ * Adds a `<geometry>_3857` column holding the geometry transformed to
+ * EPSG:3857, with its own RTREE index. The native generator then filters
+ * and encodes against this column instead of calling ST_Transform for every
+ * row of every tile, and the tile filter can use the index directly.
+ * The column is not kept in sync: prepare again after modifying the table.
+ */
+export async function prepareLayerForTiling(map: maplibregl.Map, layerId: string): Promise<void> {
+  const layerInfo = activeLayers.get(layerId);
+  if (!layerInfo) {
+    throw new Error(`Layer not found: ${layerId}`);
+  }
+
+  const { tableName, geometryColumn, sourceCrs } = layerInfo;
+  const mercatorColumn = `${geometryColumn}_3857`;
+  const startTime = performance.now();
+
+  // DuckDB cannot alter a table that has indexes, so drop them and recreate them
+  // afterwards from their own statements, including indexes the user created
+  const indexes = await executeSql(`
+    SELECT index_name, sql
+    FROM duckdb_indexes()
+    WHERE table_name = '${tableName}'
+  `);
+  for (const { index_name } of indexes) {
+    await dropSpatialIndex(index_name);
+  }
+
+  await executeSql(`ALTER TABLE "${tableName}" ADD COLUMN IF NOT EXISTS "${mercatorColumn}" GEOMETRY`);
+  await executeSql(`
+    UPDATE "${tableName}"
+    SET "${mercatorColumn}" = ${transformSql(`"${geometryColumn}"`, sourceCrs, 'EPSG:3857')}
+  `);
+
+  for (const { index_name, sql } of indexes) {
+    if (!sql) {
+      console.warn(`Could not recreate index ${index_name}: its statement is unknown`);
+      continue;
+    }
+    await executeSql(sql);
+  }
+  layerInfo.mercatorGeometryColumn = mercatorColumn;
+  layerInfo.mercatorIndexName = await createSpatialIndex(tableName, mercatorColumn) ?? undefined;
+
+  console.log(`✅ Prepared ${tableName} for tiling in ${(performance.now() - startTime).toFixed(2)}ms`);
+
+  // The table changed, so tiles cached for any layer on it are stale
+  invalidateDuckDBTable(tableName);
+  registerDuckDBLayer(layerId, toDuckDBLayerConfig(layerInfo));
+  reloadLayerSource(map, layerId);
+}
+
+/**
+ * Reset the layers showing a table after the table was replaced
+ *
+ * CREATE OR REPLACE TABLE drops the prepared Web Mercator column and all
+ * indexes, so the layers project per tile again until prepared again. The
+ * spatial index on the geometry column is recreated.
+ */
+export async function resetLayersForReplacedTable(map: maplibregl.Map | null, tableName: string): Promise<void> {
+  const layers = [...activeLayers.values()].filter(layer => layer.tableName === tableName);
+
+  for (const layerInfo of layers) {
+    layerInfo.mercatorGeometryColumn = undefined;
+    layerInfo.mercatorIndexName = undefined;
+    layerInfo.indexName = await createSpatialIndex(tableName, layerInfo.geometryColumn) ?? undefined;
+    registerDuckDBLayer(layerInfo.id, toDuckDBLayerConfig(layerInfo));
+  }
+
+  invalidateDuckDBTable(tableName);
+  if (map) {
+    for (const layerInfo of layers) {
+      reloadLayerSource(map, layerInfo.id);
+    }
+  }
+}
+
+/**
+ * Set or clear the SQL filter of a layer
+ *
+ * The filter is applied in the WHERE clause of the tile queries, so unlike
+ * a MapLibre style filter it also reduces the data encoded in the tiles.
+ * It is validated against the table before any cached tiles are dropped.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer to filter
+ * @param filter - SQL boolean expression, e.g. "population > 100000"; empty clears the filter
+ */
+export async function updateDuckDBLayerFilter(
+  map: maplibregl.Map,
+  layerId: string,
+  filter: string | null
+): Promise<void> {
+  const layerInfo = activeLayers.get(layerId);
+  if (!layerInfo) {
+    throw new Error(`Layer not found: ${layerId}`);
+  }
+
+  const trimmed = filter?.trim() || undefined;
+  if (trimmed) {
+    await validateLayerFilter(layerInfo.tableName, trimmed);
+  }
+
+  layerInfo.filter = trimmed;
+  // Re-registering drops the layer's cached tiles
+  registerDuckDBLayer(layerId, toDuckDBLayerConfig(layerInfo));
+  reloadLayerSource(map, layerId);
+
+  console.log(`Updated filter of ${layerId}: ${trimmed ?? '(none)'}`);
+}
+
+/**
+ * Check that a filter is a single boolean expression valid for a table
+ *
+ * The filter is spliced into tile queries as `AND (filter)`, so it must
+ * not close the parenthesis and continue the query, e.g. `true) OR (true`
+ * would drop the tile predicate.
+ */
+async function validateLayerFilter(tableName: string, filter: string): Promise<void> {
+  await assertSingleExpression(filter, 'Filter must be a single SQL expression');
+
+  try {
+    // LIMIT 0 binds column names and types without scanning the table
+    await executeSql(`SELECT 1 FROM "${tableName}" WHERE (${filter}) LIMIT 0`);
+  } catch (error) {
+    throw new Error(`Invalid filter for ${tableName}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Check that a grid aggregate is a single aggregate expression valid for a table
+ *
+ * The expression is spliced into the select list of grid queries, so it is
+ * held to the same single-expression check as filters, then bound next to
+ * COUNT(*) as in the grid query, which rejects non-aggregates.
+ */
+async function validateGridAggregate(tableName: string, aggregate: GridAggregate): Promise<void> {
+  const { name, expression } = aggregate;
+  await assertSingleExpression(expression, `Aggregate ${name} must be a single SQL expression`);
+
+  try {
+    await executeSql(`SELECT COUNT(*), CAST(${expression} AS DOUBLE) FROM "${tableName}" LIMIT 0`);
+  } catch (error) {
+    throw new Error(`Invalid aggregate ${name} for ${tableName}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Reject SQL that is not one self-contained expression
+ *
+ * The expression is parsed followed by a marker column: a self-contained
+ * expression yields `(expression) AND marker` as the only WHERE clause of
+ * an otherwise unchanged statement.
+ */
+async function assertSingleExpression(expression: string, message: string): Promise<void> {
+  if (expression.toLowerCase().includes(EXPRESSION_END_MARKER)) {
+    throw new Error(message);
+  }
+
+  const parsed = await parseSelectNode(`SELECT 1 WHERE (${expression}) AND ${EXPRESSION_END_MARKER}`);
+  const reference = await parseSelectNode(`SELECT 1 WHERE ${EXPRESSION_END_MARKER}`);
+  const where = parsed?.where_clause;
+  const last = where?.children?.[where.children.length - 1];
+  if (
+    !parsed || !reference ||
+    where.type !== 'CONJUNCTION_AND' ||
+    last?.type !== 'COLUMN_REF' || last.column_names?.join('.') !== EXPRESSION_END_MARKER ||
+    !isSameStatement({ ...parsed, where_clause: null }, { ...reference, where_clause: null })
+  ) {
+    throw new Error(message);
+  }
+}
+
+/**
+ * The parsed node of a single SELECT statement, or null if the SQL is not one
+ */
+async function parseSelectNode(sql: string): Promise<any | null> {
+  const result = await executeSql(`SELECT json_serialize_sql('${sql.replace(/'/g, "''")}') AS json`);
+  const parsed = JSON.parse(result[0].json);
+  if (parsed.error || parsed.statements.length !== 1 || parsed.statements[0].node.type !== 'SELECT_NODE') {
+    return null;
+  }
+  return parsed.statements[0].node;
+}
+
+// Compares parsed statements, ignoring where in the query text nodes are
+function isSameStatement(a: unknown, b: unknown): boolean {
+  const strip = (key: string, value: unknown) => key === 'query_location' ? undefined : value;
+  return JSON.stringify(a, strip) === JSON.stringify(b, strip);
+}
+
+/**
+ * Build the protocol configuration of a layer
+ */
+function toDuckDBLayerConfig(layerInfo: LayerInfo): DuckDBLayerConfig {
+  return {
+    tableName: layerInfo.tableName,
+    geometryColumn: layerInfo.geometryColumn,
+    propertyColumns: layerInfo.propertyColumns,
+    sourceCrs: layerInfo.sourceCrs,
+    mercatorGeometryColumn: layerInfo.mercatorGeometryColumn,
+    filter: layerInfo.filter,
+    idColumn: layerInfo.idColumn,
+    cluster: layerInfo.cluster,
+    grid: layerInfo.grid,
+    maxDataZoom: layerInfo.maxDataZoom,
+    generator: layerInfo.generator
+  };
+}
+
+/**
+ * Reload all tiles of a layer's source, e.g. after its configuration changed
+ */
+// A `<geometry>_3857` column next to its source geometry column
+function isMercatorColumn(column: string, columns: string[]): boolean {
+  return column.endsWith('_3857') && columns.includes(column.slice(0, -'_3857'.length));
+}
+
+function reloadLayerSource(map: maplibregl.Map, layerId: string): void {
+  const source = map.getSource(layerId) as maplibregl.VectorTileSource | undefined;
+  // Reloading the TileJSON also picks up changed bounds and fields
+  source?.setUrl(getTileJSONUrl(layerId));
+}
+
 /**
  * Toggle layer visibility
  */
@@ -340,7 +895,7 @@ export function toggleLayerVisibility(map: maplibregl.Map, layerId: string): voi
   const visibility = !layerInfo.visible;
   layerInfo.visible = visibility;
 
-  const mapLayers = [`${layerId}-fill`, `${layerId}-outline`, `${layerId}-line`, `${layerId}-circle`];
+  const mapLayers = getMapLayerIds(layerId);
   for (const id of mapLayers) {
     if (map.getLayer(id)) {
       map.setLayoutProperty(id, 'visibility', visibility ? 'visible' : 'none');
@@ -375,6 +930,22 @@ function setupFeatureInteraction(
     maxWidth: '400px'
   });
 
+  // Hover and selection are feature states keyed by the feature id, so a
+  // feature split across tile boundaries is highlighted as a whole.
+  // Features without an id (no id column) are not highlighted.
+  let hoveredId: string | number | undefined;
+  let selectedId: string | number | undefined;
+  const setState = (id: string | number | undefined, state: { hover?: boolean; selected?: boolean }) => {
+    if (id === undefined || !map.getSource(layerId)) return;
+    map.setFeatureState({ source: layerId, sourceLayer: 'v', id }, state);
+  };
+
+  // The selection lasts as long as the popup
+  popup.on('close', () => {
+    setState(selectedId, { selected: false });
+    selectedId = undefined;
+  });
+
   // Add click event for popup
   map.on('click', interactiveLayerId, (e) => {
     if (!e.features || e.features.length === 0) return;
@@ -427,6 +998,10 @@ function setupFeatureInteraction(
     popup.setLngLat(coordinates)
          .setHTML(popupContent)
          .addTo(map);
+
+    // After addTo, which closes the previous popup and clears its selection
+    selectedId = feature.id;
+    setState(selectedId, { selected: true });
   });
 
   // Change cursor on hover
@@ -434,13 +1009,97 @@ function setupFeatureInteraction(
     map.getCanvas().style.cursor = 'pointer';
   });
 
+  map.on('mousemove', interactiveLayerId, (e) => {
+    const id = e.features?.[0]?.id;
+    if (id === hoveredId) return;
+    setState(hoveredId, { hover: false });
+    hoveredId = id;
+    setState(hoveredId, { hover: true });
+  });
+
   map.on('mouseleave', interactiveLayerId, () => {
     map.getCanvas().style.cursor = '';
+    setState(hoveredId, { hover: false });
+    hoveredId = undefined;
   });
 
   // Store popup reference for cleanup
   layerPopups.set(layerId, popup);
 }
 
+/**
+ * Ids of all map layers that may be added for a DuckDB layer
+ */
+function getMapLayerIds(layerId: string): string[] {
+  return ['fill', 'outline', 'line', 'circle', 'cluster', 'cluster-count', 'heatmap']
+    .map(suffix => `${layerId}-${suffix}`);
+}
+
+/**
+ * Add the map layers of a grid layer
+ *
+ * Bin counts grow by about 4x per zoom out, so colors and weights follow
+ * the logarithm of the count.
+ */
+function addGridLayers(
+  map: maplibregl.Map,
+  layerId: string,
+  grid: GridAggregationOptions,
+  style: GridStyle
+): void {
+  const logCount: maplibregl.ExpressionSpecification = ['ln', ['+', 1, ['get', 'count']]];
+
+  if (style === 'heatmap') {
+    map.addLayer({
+      id: `${layerId}-heatmap`,
+      type: 'heatmap',
+      source: layerId,
+      'source-layer': 'v',
+      paint: {
+        'heatmap-weight': ['interpolate', ['linear'], logCount, 0, 0, 10, 1],
+        // Bins are cellSize pixels apart, so overlap neighboring bins
+        'heatmap-radius': (grid.cellSize ?? 16) * 1.5,
+        'heatmap-opacity': 0.8
+      }
+    });
+    return;
+  }
+
+  // Choropleth of bin polygons, light yellow to dark purple
+  map.addLayer({
+    id: `${layerId}-fill`,
+    type: 'fill',
+    source: layerId,
+    'source-layer': 'v',
+    paint: {
+      'fill-color': ['interpolate', ['linear'], logCount,
+        0, '#ffffcc',
+        2, '#fed976',
+        4, '#fd8d3c',
+        6, '#e31a1c',
+        8, '#800026',
+        10, '#3f007d'
+      ],
+      'fill-opacity': 0.7
+    }
+  });
+}
+
+/**
+ * Paint color that changes for hovered and selected features
+ */
+function highlightColor(
+  color: string,
+  hoverColor: string,
+  selectedColor: string
+): maplibregl.ExpressionSpecification {
+  return [
+    'case',
+    ['boolean', ['feature-state', 'selected'], false], selectedColor,
+    ['boolean', ['feature-state', 'hover'], false], hoverColor,
+    color
+  ];
+}
+
 // Store popups for cleanup when removing layers
 const layerPopups = new Map<string, maplibregl.Popup>();
\ No newline at end of file
@@ -13,6 +13,8 @@ export function initializeMap(): maplibregl.Map {
     container: 'map',
     style: {
       version: 8,
+      // Fonts for symbol layers such as cluster counts
+      glyphs: 'https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf',
       sources: {
         'carto-light': {
           type: 'raster',
@@ -0,0 +1,137 @@
+/**
+ * MBTiles Export
+ *
+ * Writes the tile pyramid of a registered layer to an MBTiles 1.3 file using
+ * DuckDB's sqlite extension: the file is created in DuckDB-WASM's virtual
+ * file system, attached as a SQLite database, filled, and copied out.
+ *
+ * MBTiles stores rows in TMS order (y axis flipped) and vector tiles
+ * gzip-compressed.
+ *
+ * Spec: https://github.com/mapbox/mbtiles-spec/blob/master/1.3/spec.md
+ */
+
+import { executeSql, getDatabase } from './duckdb';
+import { resolvePropertyColumns, getVectorLayerFieldType } from './property-encoding';
+import { walkTilePyramid } from './tile-pyramid';
+import { gzip, toHex } from './bytes';
+import type { DuckDBLayerConfig } from './duckdb-protocol';
+import type { TilePyramidOptions } from './tile-pyramid';
+
+const ATTACH_ALIAS = 'mbtiles_export';
+// Tiles per INSERT statement
+const INSERT_BATCH_SIZE = 100;
+
+export interface MBTilesExportOptions extends TilePyramidOptions {
+  name?: string;  // Tileset name in metadata (defaults to tableName)
+}
+
+/**
+ * Export a layer's tile pyramid to an MBTiles file
+ *
+ * @param config - Registered layer configuration
+ * @param options - Zoom range, optional bbox and progress callback
+ * @returns The SQLite database file as a Blob
+ */
+export async function exportMBTiles(
+  config: DuckDBLayerConfig,
+  options: MBTilesExportOptions
+): Promise<Blob> {
+  const db = getDatabase();
+  if (!db) {
+    throw new Error('DuckDB not initialized. Call initializeDuckDB first.');
+  }
+
+  await executeSql(`INSTALL sqlite; LOAD sqlite;`);
+
+  const fileName = `${config.tableName}_${Date.now()}.mbtiles`;
+  await db.registerEmptyFileBuffer(fileName);
+
+  try {
+    await executeSql(`ATTACH '${fileName}' AS ${ATTACH_ALIAS} (TYPE SQLITE)`);
+
+    try {
+      await executeSql(`CREATE TABLE ${ATTACH_ALIAS}.metadata (name TEXT, value TEXT)`);
+      await executeSql(`
+        CREATE TABLE ${ATTACH_ALIAS}.tiles (
+          zoom_level INTEGER,
+          tile_column INTEGER,
+          tile_row INTEGER,
+          tile_data BLOB,
+          PRIMARY KEY (zoom_level, tile_column, tile_row)
+        )
+      `);
+
+      let batch: string[] = [];
+      const flush = async () => {
+        if (batch.length === 0) return;
+        await executeSql(`
+          INSERT INTO ${ATTACH_ALIAS}.tiles (zoom_level, tile_column, tile_row, tile_data)
+          VALUES ${batch.join(',\n')}
+        `);
+        batch = [];
+      };
+
+      let tileCount = 0;
+      const { bbox } = await walkTilePyramid(config, options, async (zxy, data) => {
+        // Flip y from XYZ to TMS
+        const tileRow = (1 << zxy.z) - 1 - zxy.y;
+        const compressed = await gzip(data);
+        batch.push(`(${zxy.z}, ${zxy.x}, ${tileRow}, from_hex('${toHex(compressed)}'))`);
+        tileCount++;
+
+        if (batch.length >= INSERT_BATCH_SIZE) {
+          await flush();
+        }
+      });
+      await flush();
+
+      // Only the columns that are actually encoded in the tiles
+      const properties = await resolvePropertyColumns(config, config.propertyColumns);
+
+      const metadata: Record<string, string> = {
+        name: options.name ?? config.tableName,
+        format: 'pbf',
+        type: 'overlay',
+        version: '1.3',
+        generator: 'duckdb-wasm-mvt',
+        bounds: bbox.join(','),
+        center: `${(bbox[0] + bbox[2]) / 2},${(bbox[1] + bbox[3]) / 2},${options.minZoom}`,
+        minzoom: String(options.minZoom),
+        maxzoom: String(options.maxZoom),
+        json: JSON.stringify({
+          vector_layers: [{
+            id: 'v',
+            fields: Object.fromEntries(properties.map(col => [col.name, getVectorLayerFieldType(col.kind)])),
+            minzoom: options.minZoom,
+            maxzoom: options.maxZoom
+          }]
+        })
+      };
+
+      await executeSql(`
+        INSERT INTO ${ATTACH_ALIAS}.metadata (name, value)
+        VALUES ${Object.entries(metadata).map(([key, value]) => `(${sqlString(key)}, ${sqlString(value)})`).join(',\n')}
+      `);
+
+      console.log(`📦 MBTiles export of ${config.tableName}: ${tileCount} tiles`);
+
+    } finally {
+      await executeSql(`DETACH ${ATTACH_ALIAS}`);
+    }
+
+    const buffer = await db.copyFileToBuffer(fileName);
+    return new Blob([buffer as BlobPart], { type: 'application/vnd.sqlite3' });
+
+  } finally {
+    await db.dropFile(fileName);
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
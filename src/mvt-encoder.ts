@@ -0,0 +1,236 @@
+/**
+ * Direct MVT encoding
+ *
+ * Writes a vector tile layer with pbf from geometries that are already in
+ * integer tile coordinates, without going through GeoJSON or geojson-vt.
+ *
+ * Spec: https://github.com/mapbox/vector-tile-spec/tree/master/2.1
+ */
+
+import Pbf from 'pbf';
+import type { TileGeometry } from './wkb';
+
+const MVT_POINT = 1;
+const MVT_LINESTRING = 2;
+const MVT_POLYGON = 3;
+
+const MOVE_TO = 1;
+const LINE_TO = 2;
+const CLOSE_PATH = 7;
+
+export type MVTPropertyValue = string | number | boolean | null;
+
+export interface MVTFeature {
+  geometry: TileGeometry;
+  properties: Record<string, MVTPropertyValue>;
+  id?: number;
+}
+
+interface EncodedFeature {
+  id?: number;
+  tags: number[];
+  type: number;
+  geometry: number[];
+}
+
+interface EncodedLayer {
+  name: string;
+  extent: number;
+  keys: string[];
+  values: (string | number | boolean)[];
+  features: EncodedFeature[];
+}
+
+/**
+ * Encode a single-layer tile
+ *
+ * A geometry mixing points, lines and polygons (a geometry collection)
+ * becomes one feature per geometry type. Null properties are left out.
+ *
+ * @returns The encoded tile, empty if no feature has a geometry
+ */
+export function encodeMVTLayer(name: string, features: MVTFeature[], extent = 4096): Uint8Array {
+  const keys = new Map<string, number>();
+  const values = new Map<string, number>();
+  const layer: EncodedLayer = { name, extent, keys: [], values: [], features: [] };
+
+  for (const feature of features) {
+    const geometries: [number, number[]][] = [];
+    const { points, lines, polygons } = feature.geometry;
+    if (points.length > 0) geometries.push([MVT_POINT, encodePoints(points)]);
+    if (lines.length > 0) geometries.push([MVT_LINESTRING, encodeLines(lines)]);
+    if (polygons.length > 0) {
+      const commands = encodePolygons(polygons);
+      if (commands.length > 0) geometries.push([MVT_POLYGON, commands]);
+    }
+    if (geometries.length === 0) continue;
+
+    const tags: number[] = [];
+    for (const [key, value] of Object.entries(feature.properties)) {
+      if (value === null || value === undefined) continue;
+
+      let keyIndex = keys.get(key);
+      if (keyIndex === undefined) {
+        keyIndex = layer.keys.push(key) - 1;
+        keys.set(key, keyIndex);
+      }
+      // Values of different types must not share an entry
+      const valueKey = `${typeof value}:${value}`;
+      let valueIndex = values.get(valueKey);
+      if (valueIndex === undefined) {
+        valueIndex = layer.values.push(value) - 1;
+        values.set(valueKey, valueIndex);
+      }
+      tags.push(keyIndex, valueIndex);
+    }
+
+    for (const [type, geometry] of geometries) {
+      layer.features.push({ id: feature.id, tags, type, geometry });
+    }
+  }
+
+  if (layer.features.length === 0) {
+    return new Uint8Array();
+  }
+
+  const pbf = new Pbf();
+  pbf.writeMessage(3, writeLayer, layer);
+  return pbf.finish();
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function writeLayer(layer: EncodedLayer, pbf: Pbf): void {
+  pbf.writeVarintField(15, 2);  // version
+  pbf.writeStringField(1, layer.name);
+  for (const feature of layer.features) {
+    pbf.writeMessage(2, writeFeature, feature);
+  }
+  for (const key of layer.keys) {
+    pbf.writeStringField(3, key);
+  }
+  for (const value of layer.values) {
+    pbf.writeMessage(4, writeValue, value);
+  }
+  pbf.writeVarintField(5, layer.extent);
+}
+
+function writeFeature(feature: EncodedFeature, pbf: Pbf): void {
+  if (feature.id !== undefined) {
+    pbf.writeVarintField(1, feature.id);
+  }
+  pbf.writePackedVarint(2, feature.tags);
+  pbf.writeVarintField(3, feature.type);
+  pbf.writePackedVarint(4, feature.geometry);
+}
+
+function writeValue(value: string | number | boolean, pbf: Pbf): void {
+  if (typeof value === 'string') {
+    pbf.writeStringField(1, value);
+  } else if (typeof value === 'boolean') {
+    pbf.writeBooleanField(7, value);
+  } else if (!Number.isInteger(value)) {
+    pbf.writeDoubleField(3, value);
+  } else if (value < 0) {
+    pbf.writeSVarintField(6, value);
+  } else {
+    pbf.writeVarintField(5, value);
+  }
+}
+
+function command(id: number, count: number): number {
+  return (id & 0x7) | (count << 3);
+}
+
+function zigzag(value: number): number {
+  return (value << 1) ^ (value >> 31);
+}
+
+/**
+ * Geometry commands are relative to a cursor that carries over between parts
+ */
+class CommandWriter {
+  commands: number[] = [];
+  private x = 0;
+  private y = 0;
+
+  // Write the points of coords from index start (in points) to end (exclusive)
+  writePoints(coords: number[], start: number, end: number): void {
+    for (let i = start * 2; i < end * 2; i += 2) {
+      this.commands.push(zigzag(coords[i] - this.x), zigzag(coords[i + 1] - this.y));
+      this.x = coords[i];
+      this.y = coords[i + 1];
+    }
+  }
+}
+
+function encodePoints(points: number[]): number[] {
+  const writer = new CommandWriter();
+  writer.commands.push(command(MOVE_TO, points.length / 2));
+  writer.writePoints(points, 0, points.length / 2);
+  return writer.commands;
+}
+
+function encodeLines(lines: number[][]): number[] {
+  const writer = new CommandWriter();
+  for (const line of lines) {
+    const count = line.length / 2;
+    writer.commands.push(command(MOVE_TO, 1));
+    writer.writePoints(line, 0, 1);
+    writer.commands.push(command(LINE_TO, count - 1));
+    writer.writePoints(line, 1, count);
+  }
+  return writer.commands;
+}
+
+/**
+ * Encode polygons with exterior rings clockwise (positive area in tile
+ * coordinates) and holes counter-clockwise, as the spec requires
+ */
+function encodePolygons(polygons: number[][][]): number[] {
+  const writer = new CommandWriter();
+
+  for (const rings of polygons) {
+    for (let i = 0; i < rings.length; i++) {
+      let ring = rings[i];
+      const area = signedArea(ring);
+      if (area === 0) {
+        // A collapsed exterior ring takes its holes with it
+        if (i === 0) break;
+        continue;
+      }
+      if ((i === 0) !== (area > 0)) {
+        ring = reverseRing(ring);
+      }
+
+      // The closing point is implied by ClosePath
+      const count = ring.length / 2 - 1;
+      writer.commands.push(command(MOVE_TO, 1));
+      writer.writePoints(ring, 0, 1);
+      writer.commands.push(command(LINE_TO, count - 1));
+      writer.writePoints(ring, 1, count);
+      writer.commands.push(command(CLOSE_PATH, 1));
+    }
+  }
+
+  return writer.commands;
+}
+
+// Surveyor's formula; positive for clockwise rings when y points down
+function signedArea(ring: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 2; i += 2) {
+    sum += ring[i] * ring[i + 3] - ring[i + 2] * ring[i + 1];
+  }
+  return sum;
+}
+
+function reverseRing(ring: number[]): number[] {
+  const reversed: number[] = [];
+  for (let i = ring.length - 2; i >= 0; i -= 2) {
+    reversed.push(ring[i], ring[i + 1]);
+  }
+  return reversed;
+}
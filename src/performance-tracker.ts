@@ -1,16 +1,65 @@
+import { getPercentiles } from './statistics';
+import type { Percentiles } from './statistics';
+import { toCsvValue } from './escaping';
+
+/**
+ * How a tile request ended:
+ * - generated: queried from DuckDB
+ * - cached: served from the tile cache without querying DuckDB
+ * - cancelled: aborted by MapLibre before the tile was generated
+ * - overzoomed: cut from its ancestor tile at the layer's maxDataZoom
+ */
+export type TileOutcome = 'generated' | 'cached' | 'cancelled' | 'overzoomed';
+
 export interface TileMetrics {
-  tileId: string;
+  tileId: string;  // z/x/y
+  source: string;  // Id of the layer or layer group the tile was requested for
+  method: string;  // Label of the tile's generator, e.g. "Native" ("Native+WKB" for mixed groups)
+  z: number;
+  queueTime: number;  // Waiting for a pooled connection
   fetchTime: number;
   convertTime: number;
   totalTime: number;
   features: number;
   tileSize: number;
   timestamp: number;
+  outcome: TileOutcome;
+  prepared?: boolean;  // Generated from a pre-projected EPSG:3857 geometry column
+  workerQueueTime?: number;  // Waiting for a conversion worker
+  workerTime?: number;       // Round trip to a conversion worker: parsing, converting and transfers
+}
+
+/**
+ * Timing of the generated tiles of one method or zoom level
+ */
+export interface GroupStats {
+  group: string;
+  tiles: number;
+  totalTime: Percentiles;
+  avgFetch: number;
+  avgConvert: number;
 }
 
+export interface HistogramBucket {
+  label: string;
+  counts: Map<string, number>;  // Tiles per method
+}
+
+// Upper bounds of the total time histogram buckets, in ms
+const HISTOGRAM_BOUNDS = [5, 10, 20, 50, 100, 200, 500, 1000, 2000];
+
+const METHOD_COLORS = ['#4a9eff', '#4caf50', '#ff9800', '#e91e63', '#9c27b0', '#00bcd4'];
+
+const SAMPLE_FIELDS: (keyof TileMetrics)[] = [
+  'timestamp', 'tileId', 'source', 'method', 'z', 'outcome', 'prepared', 'queueTime', 'fetchTime',
+  'convertTime', 'totalTime', 'workerQueueTime', 'workerTime', 'features', 'tileSize'
+];
+
 class PerformanceTracker {
   private metrics: TileMetrics[] = [];
-  private maxMetrics = 100; // Keep last 100 tile metrics
+  private maxMetrics = 1000; // Samples kept, see setRetention
+  private listeners = new Set<() => void>();
+  private updateScheduled = false;
 
   addMetric(metric: TileMetrics): void {
     this.metrics.push(metric);
@@ -20,45 +69,196 @@ class PerformanceTracker {
       this.metrics.shift();
     }
 
-    this.updateUI();
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Set how many of the most recent samples are kept
+   */
+  setRetention(maxSamples: number): void {
+    if (!Number.isInteger(maxSamples) || maxSamples < 1) {
+      throw new Error(`Invalid metrics retention: ${maxSamples}`);
+    }
+    this.maxMetrics = maxSamples;
+    if (this.metrics.length > maxSamples) {
+      this.metrics.splice(0, this.metrics.length - maxSamples);
+    }
+    this.scheduleUpdate();
+  }
+
+  getRetention(): number {
+    return this.maxMetrics;
   }
 
+  /**
+   * Retained samples, oldest first
+   */
+  getSamples(): readonly TileMetrics[] {
+    return this.metrics;
+  }
+
+  /**
+   * Call listener whenever the retained samples change, at most once per frame
+   *
+   * @returns A function that unsubscribes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Averages over generated tiles only; cache hits, cancellations and
+   * overzoomed tiles are counted separately so they don't make the
+   * generation methods look faster than they are
+   */
   getAverages(): {
     avgTotal: number;
+    avgQueue: number;
     avgFetch: number;
     avgConvert: number;
     totalTiles: number;
+    cacheHits: number;
+    cacheMisses: number;
+    cancelled: number;
+    overzoomed: number;
   } {
-    if (this.metrics.length === 0) {
-      return { avgTotal: 0, avgFetch: 0, avgConvert: 0, totalTiles: 0 };
+    const generated = this.metrics.filter(m => m.outcome === 'generated');
+    const cancelled = this.metrics.filter(m => m.outcome === 'cancelled').length;
+    const cacheHits = this.metrics.filter(m => m.outcome === 'cached').length;
+    const overzoomed = this.metrics.filter(m => m.outcome === 'overzoomed').length;
+    // Cancelled requests missed the cache too
+    const cacheMisses = generated.length + cancelled;
+
+    if (generated.length === 0) {
+      return { avgTotal: 0, avgQueue: 0, avgFetch: 0, avgConvert: 0, totalTiles: 0, cacheHits, cacheMisses, cancelled, overzoomed };
     }
 
-    const sum = this.metrics.reduce(
+    const sum = generated.reduce(
       (acc, m) => ({
         total: acc.total + m.totalTime,
+        queue: acc.queue + m.queueTime,
         fetch: acc.fetch + m.fetchTime,
         convert: acc.convert + m.convertTime,
       }),
-      { total: 0, fetch: 0, convert: 0 }
+      { total: 0, queue: 0, fetch: 0, convert: 0 }
     );
 
     return {
-      avgTotal: sum.total / this.metrics.length,
-      avgFetch: sum.fetch / this.metrics.length,
-      avgConvert: sum.convert / this.metrics.length,
-      totalTiles: this.metrics.length,
+      avgTotal: sum.total / generated.length,
+      avgQueue: sum.queue / generated.length,
+      avgFetch: sum.fetch / generated.length,
+      avgConvert: sum.convert / generated.length,
+      totalTiles: generated.length,
+      cacheHits,
+      cacheMisses,
+      cancelled,
+      overzoomed,
     };
   }
 
+  /**
+   * Total time percentiles of generated tiles per generation method, with
+   * tiles from prepared (pre-projected) layers reported separately for
+   * before/after comparison
+   */
+  getMethodStats(): GroupStats[] {
+    return this.getGroupStats(getMethodLabel);
+  }
+
+  /**
+   * Total time percentiles of generated tiles per zoom level, lowest first
+   */
+  getZoomStats(): GroupStats[] {
+    return this.getGroupStats(m => `z${m.z}`)
+      .sort((a, b) => Number(a.group.slice(1)) - Number(b.group.slice(1)));
+  }
+
+  /**
+   * Generated tiles per total time bucket and method
+   */
+  getHistogram(): HistogramBucket[] {
+    const buckets: HistogramBucket[] = [...HISTOGRAM_BOUNDS, Infinity].map((bound, i) => ({
+      label: i === 0 ? `<${bound}` : bound === Infinity ? `≥${HISTOGRAM_BOUNDS[i - 1]}` : `${HISTOGRAM_BOUNDS[i - 1]}-${bound}`,
+      counts: new Map()
+    }));
+
+    for (const m of this.metrics) {
+      if (m.outcome !== 'generated') continue;
+      const index = HISTOGRAM_BOUNDS.findIndex(bound => m.totalTime < bound);
+      const bucket = buckets[index === -1 ? buckets.length - 1 : index];
+      const method = getMethodLabel(m);
+      bucket.counts.set(method, (bucket.counts.get(method) ?? 0) + 1);
+    }
+
+    return buckets;
+  }
+
+  /**
+   * All retained samples, oldest first, as JSON or CSV
+   */
+  exportSamples(format: 'json' | 'csv'): string {
+    if (format === 'json') {
+      return JSON.stringify(this.metrics, null, 2);
+    }
+
+    const rows = this.metrics.map(m => SAMPLE_FIELDS.map(field => toCsvValue(m[field])).join(','));
+    return [SAMPLE_FIELDS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  private getGroupStats(groupOf: (metric: TileMetrics) => string): GroupStats[] {
+    const groups = new Map<string, TileMetrics[]>();
+    for (const m of this.metrics) {
+      if (m.outcome !== 'generated') continue;
+      const group = groupOf(m);
+      let metrics = groups.get(group);
+      if (!metrics) {
+        metrics = [];
+        groups.set(group, metrics);
+      }
+      metrics.push(m);
+    }
+
+    return Array.from(groups, ([group, metrics]) => ({
+      group,
+      tiles: metrics.length,
+      totalTime: getPercentiles(metrics.map(m => m.totalTime)),
+      avgFetch: metrics.reduce((acc, m) => acc + m.fetchTime, 0) / metrics.length,
+      avgConvert: metrics.reduce((acc, m) => acc + m.convertTime, 0) / metrics.length
+    }));
+  }
+
+  // Metrics arrive once per tile, so update the panel at most once per frame
+  private scheduleUpdate(): void {
+    if (this.updateScheduled) return;
+    this.updateScheduled = true;
+    requestAnimationFrame(() => {
+      this.updateScheduled = false;
+      this.updateUI();
+    });
+  }
+
   private updateUI(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+
     const perfCard = document.getElementById('performance-stats');
     const totalTilesEl = document.getElementById('total-tiles');
     const avgTotalEl = document.getElementById('avg-total');
+    const avgQueueEl = document.getElementById('avg-queue');
     const avgFetchEl = document.getElementById('avg-fetch');
     const avgConvertEl = document.getElementById('avg-convert');
     const perfDetailsEl = document.getElementById('perf-details');
+    const cacheHitsEl = document.getElementById('cache-hits');
+    const cancelledEl = document.getElementById('cancelled-tiles');
+    const overzoomedEl = document.getElementById('overzoomed-tiles');
+    const byMethodEl = document.getElementById('perf-by-method');
+    const byZoomEl = document.getElementById('perf-by-zoom');
+    const histogramEl = document.getElementById('perf-histogram');
+    const samplesEl = document.getElementById('perf-samples');
 
-    if (!perfCard || !totalTilesEl || !avgTotalEl || !avgFetchEl || !avgConvertEl || !perfDetailsEl) {
+    if (!perfCard || !totalTilesEl || !avgTotalEl || !avgQueueEl || !avgFetchEl || !avgConvertEl || !perfDetailsEl) {
       return;
     }
 
@@ -69,19 +269,47 @@ class PerformanceTracker {
     const avgs = this.getAverages();
     totalTilesEl.textContent = avgs.totalTiles.toString();
     avgTotalEl.textContent = avgs.avgTotal.toFixed(2);
+    avgQueueEl.textContent = avgs.avgQueue.toFixed(2);
     avgFetchEl.textContent = avgs.avgFetch.toFixed(2);
     avgConvertEl.textContent = avgs.avgConvert.toFixed(2);
+    if (cacheHitsEl) {
+      const lookups = avgs.cacheHits + avgs.cacheMisses;
+      cacheHitsEl.textContent = lookups > 0
+        ? `${avgs.cacheHits}/${lookups} (${((avgs.cacheHits / lookups) * 100).toFixed(0)}%)`
+        : '-';
+    }
+    if (cancelledEl) {
+      cancelledEl.textContent = avgs.cancelled.toString();
+    }
+    if (overzoomedEl) {
+      overzoomedEl.textContent = avgs.overzoomed.toString();
+    }
+
+    if (samplesEl) {
+      samplesEl.textContent = `${this.metrics.length}/${this.maxMetrics}`;
+    }
+
+    // One row per method and per zoom, side by side for comparison
+    if (byMethodEl) {
+      byMethodEl.innerHTML = renderStatsTable('Method', this.getMethodStats());
+    }
+    if (byZoomEl) {
+      byZoomEl.innerHTML = renderStatsTable('Zoom', this.getZoomStats());
+    }
+    if (histogramEl) {
+      histogramEl.innerHTML = renderHistogram(this.getHistogram());
+    }
 
     // Update recent tiles list (show last 10)
     const recentMetrics = this.metrics.slice(-10).reverse();
     const detailsHtml = recentMetrics
       .map(m => {
         const time = new Date(m.timestamp).toLocaleTimeString();
-        const method = m.tileId.startsWith('[Native]') ? '🔵 Native' : '🟢 GeoJSON';
-        const cleanTileId = m.tileId.replace(/^\[(Native|GeoJSON)\]\s*/, '');
+        const method = `${m.method === 'Native' ? '🔵' : '🟢'} ${getMethodLabel(m)}`;
         return `<div style="margin-bottom: 5px; padding: 5px; background: rgba(255,255,255,0.05); border-radius: 3px;">
-          <div><strong>${method} ${cleanTileId}</strong> @ ${time}</div>
-          <div>Total: ${m.totalTime.toFixed(2)}ms | Fetch: ${m.fetchTime.toFixed(2)}ms | Convert: ${m.convertTime.toFixed(2)}ms</div>
+          <div><strong>${method} ${m.tileId}</strong>${m.outcome !== 'generated' ? ` (${m.outcome})` : ''} @ ${time}</div>
+          <div>Total: ${m.totalTime.toFixed(2)}ms | Queue: ${m.queueTime.toFixed(2)}ms | Fetch: ${m.fetchTime.toFixed(2)}ms | Convert: ${m.convertTime.toFixed(2)}ms</div>
+          ${m.workerTime !== undefined ? `<div>Worker queue: ${(m.workerQueueTime ?? 0).toFixed(2)}ms | Worker: ${m.workerTime.toFixed(2)}ms</div>` : ''}
           <div>${m.features >= 0 ? `Features: ${m.features} | ` : ''}Size: ${(m.tileSize / 1024).toFixed(2)}KB</div>
         </div>`;
       })
@@ -92,8 +320,59 @@ class PerformanceTracker {
 
   clear(): void {
     this.metrics = [];
-    this.updateUI();
+    this.scheduleUpdate();
   }
 }
 
+function getMethodLabel(metric: TileMetrics): string {
+  return metric.prepared ? `${metric.method} (3857 column)` : metric.method;
+}
+
+function renderStatsTable(title: string, stats: GroupStats[]): string {
+  if (stats.length === 0) {
+    return '';
+  }
+  const rows = stats
+    .map(s => `<tr title="Avg fetch ${s.avgFetch.toFixed(2)}ms, avg convert ${s.avgConvert.toFixed(2)}ms"><td style="text-align: left;">${s.group}</td><td>${s.totalTime.p50.toFixed(1)}</td><td>${s.totalTime.p95.toFixed(1)}</td><td>${s.totalTime.p99.toFixed(1)}</td><td>${s.totalTime.max.toFixed(1)}</td><td>${s.tiles}</td></tr>`)
+    .join('');
+  return `<table style="width: 100%; text-align: right;">
+      <tr><th style="text-align: left;">${title}</th><th>p50 ms</th><th>p95 ms</th><th>p99 ms</th><th>Max ms</th><th>Tiles</th></tr>
+      ${rows}
+    </table>`;
+}
+
+/**
+ * Horizontal bars per bucket, split into one colored segment per method
+ */
+function renderHistogram(buckets: HistogramBucket[]): string {
+  const totals = buckets.map(bucket => [...bucket.counts.values()].reduce((acc, count) => acc + count, 0));
+  const maxTotal = Math.max(...totals);
+  if (maxTotal === 0) {
+    return '';
+  }
+
+  const methods = [...new Set(buckets.flatMap(bucket => [...bucket.counts.keys()]))];
+  const colorOf = (method: string) => METHOD_COLORS[methods.indexOf(method) % METHOD_COLORS.length];
+
+  const bars = buckets
+    .map((bucket, i) => {
+      const segments = methods
+        .filter(method => bucket.counts.has(method))
+        .map(method => [method, bucket.counts.get(method)!] as const)
+        .map(([method, count]) => `<div title="${method}: ${count}" style="width: ${(count / maxTotal) * 100}%; background: ${colorOf(method)};"></div>`)
+        .join('');
+      return `<div style="display: flex; align-items: center; gap: 4px;">
+        <span style="width: 56px; text-align: right;">${bucket.label}</span>
+        <div style="flex: 1; display: flex; height: 10px;">${segments}</div>
+        <span style="width: 32px;">${totals[i]}</span>
+      </div>`;
+    })
+    .join('');
+  const legend = methods
+    .map(method => `<span style="margin-right: 8px;"><span style="color: ${colorOf(method)};">■</span> ${method}</span>`)
+    .join('');
+
+  return `<div style="margin-bottom: 2px;">Total time (ms)</div>${bars}<div style="margin-top: 2px;">${legend}</div>`;
+}
+
 export const performanceTracker = new PerformanceTracker();
\ No newline at end of file
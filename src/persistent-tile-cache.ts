@@ -0,0 +1,346 @@
+/**
+ * Persistent tile cache backed by IndexedDB
+ *
+ * Tiles survive page reloads. Entries are keyed by a fingerprint of the
+ * contents of every table the tile reads from, so reloading the same data
+ * into a table hits the cache while modified data misses it. Entries of
+ * earlier contents are kept, so switching back to a dataset under a reused
+ * table name hits again. Layer ids are not stable across reloads, so
+ * entries are tracked per table instead.
+ *
+ * Like the in-memory TileCache, the store is an LRU bounded by total byte
+ * size, evicting the least recently used tiles first.
+ */
+
+import { executeSql } from './duckdb';
+import { sha256Hex } from './bytes';
+
+const DB_NAME = 'duckdb-wasm-mvt';
+const DB_VERSION = 2;
+const STORE_NAME = 'tiles';
+const TABLES_INDEX = 'tables';
+const LAST_USED_INDEX = 'lastUsedAt';
+
+// Fixed per-entry cost so that empty tiles also count towards the budget
+const ENTRY_OVERHEAD_BYTES = 64;
+// Hits refresh an entry's lastUsedAt at most this often, to avoid a write per hit
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+interface PersistedTile {
+  key: string;
+  tables: string[];             // Qualified table names, indexed (multiEntry)
+  tableFingerprints: string[];  // `${table}@${fingerprint}` for each table
+  data: Uint8Array;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;  // Indexed, for LRU eviction
+}
+
+export interface PersistentCacheTable {
+  tableName: string;
+  schema?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const fingerprints = new Map<string, Promise<string>>();
+
+let maxBytes = 256 * 1024 * 1024;
+// Bytes stored, counted on the first write and corrected by every eviction
+// (other tabs write to the same store); null until counted
+let storedBytes: number | null = null;
+let eviction: Promise<void> | null = null;
+
+/**
+ * Set the byte budget of the store, evicting least recently used tiles if it is exceeded
+ */
+export function setPersistentTileCacheMaxBytes(bytes: number): void {
+  maxBytes = bytes;
+  scheduleEviction();
+}
+
+/**
+ * Open (and create on first use) the IndexedDB database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        // Version 1 entries have no lastUsedAt and could never be evicted
+        if (event.oldVersion > 0) {
+          request.result.deleteObjectStore(STORE_NAME);
+        }
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex(TABLES_INDEX, 'tables', { multiEntry: true });
+        store.createIndex(LAST_USED_INDEX, 'lastUsedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Iterate a cursor, calling visit for each record
+ */
+function iterateCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      visit(cursor);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function qualifiedName(table: PersistentCacheTable): string {
+  return table.schema ? `${table.schema}.${table.tableName}` : table.tableName;
+}
+
+/**
+ * Compute a fingerprint of a table's contents
+ *
+ * Row count plus an order-independent sum of row hashes. Requires a full
+ * scan, so the result is memoized until forgetTableFingerprint is called.
+ */
+export function getTableFingerprint(table: PersistentCacheTable): Promise<string> {
+  const name = qualifiedName(table);
+  let fingerprint = fingerprints.get(name);
+
+  if (!fingerprint) {
+    const fullTableName = table.schema
+      ? `"${table.schema}"."${table.tableName}"`
+      : `"${table.tableName}"`;
+
+    fingerprint = executeSql(`
+      SELECT COUNT(*) AS row_count, SUM(hash(t))::VARCHAR AS row_hash
+      FROM ${fullTableName} AS t
+    `).then(result => `${result[0].row_count}-${result[0].row_hash ?? 0}`);
+
+    fingerprints.set(name, fingerprint);
+    // Don't memoize failures
+    fingerprint.catch(() => fingerprints.delete(name));
+  }
+
+  return fingerprint;
+}
+
+/**
+ * Forget the memoized fingerprint of a table after its contents changed
+ */
+export function forgetTableFingerprint(table: PersistentCacheTable): void {
+  fingerprints.delete(qualifiedName(table));
+}
+
+/**
+ * Build the persistent key for a tile
+ *
+ * @param tables - Tables the tile reads from
+ * @param params - LayerConfigs and generation parameters; anything that affects the tile bytes
+ * @param tileId - z/x/y of the tile
+ */
+export async function buildPersistentTileKey(
+  tables: PersistentCacheTable[],
+  params: unknown,
+  tileId: string
+): Promise<{ key: string; tables: string[]; tableFingerprints: string[] }> {
+  const names = tables.map(qualifiedName);
+  const tableFingerprints = await Promise.all(
+    tables.map(async (table, i) => `${names[i]}@${await getTableFingerprint(table)}`)
+  );
+  const paramsHash = await sha256Hex(JSON.stringify(params));
+
+  return {
+    key: `${tableFingerprints.join('|')}:${paramsHash}:${tileId}`,
+    tables: names,
+    tableFingerprints
+  };
+}
+
+/**
+ * Look up a persisted tile, marking it as recently used
+ */
+export async function getPersistedTile(key: string): Promise<Uint8Array | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const record = await promisify<PersistedTile | undefined>(store.get(key));
+
+  const now = Date.now();
+  if (record && now - record.lastUsedAt > LAST_USED_RESOLUTION_MS) {
+    record.lastUsedAt = now;
+    store.put(record);
+  }
+  return record?.data;
+}
+
+/**
+ * Persist a tile
+ */
+export async function putPersistedTile(
+  tileKey: { key: string; tables: string[]; tableFingerprints: string[] },
+  data: Uint8Array
+): Promise<void> {
+  const size = data.byteLength + ENTRY_OVERHEAD_BYTES;
+  if (size > maxBytes) {
+    return;
+  }
+
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+
+  const now = Date.now();
+  const record: PersistedTile = {
+    ...tileKey,
+    data,
+    size: data.byteLength,
+    createdAt: now,
+    lastUsedAt: now
+  };
+  await promisify(store.put(record));
+
+  if (storedBytes === null) {
+    storedBytes = await countStoredBytes();
+  } else {
+    storedBytes += size;
+  }
+  if (storedBytes > maxBytes) {
+    scheduleEviction();
+  }
+}
+
+/**
+ * Get the number and total byte size of persisted tiles, overall and per table
+ */
+export async function getPersistentTileCacheStats(): Promise<{
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  tables: Record<string, { entries: number; bytes: number }>;
+}> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const stats = { entries: 0, bytes: 0, maxBytes, tables: {} as Record<string, { entries: number; bytes: number }> };
+
+  await iterateCursor(store.openCursor(), cursor => {
+    const record = cursor.value as PersistedTile;
+    stats.entries++;
+    stats.bytes += record.size;
+    for (const table of record.tables) {
+      const tableStats = stats.tables[table] ?? (stats.tables[table] = { entries: 0, bytes: 0 });
+      tableStats.entries++;
+      tableStats.bytes += record.size;
+    }
+  });
+
+  return stats;
+}
+
+/**
+ * Delete persisted tiles of one table, or of all tables if none is given
+ *
+ * @returns Number of deleted tiles
+ */
+export async function purgePersistentTileCache(table?: PersistentCacheTable): Promise<number> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+
+  // Counted again on the next write
+  storedBytes = null;
+
+  if (!table) {
+    const count = await promisify(store.count());
+    await promisify(store.clear());
+    console.log(`Purged ${count} persisted tiles`);
+    return count;
+  }
+
+  const name = qualifiedName(table);
+  let count = 0;
+  await iterateCursor(store.index(TABLES_INDEX).openCursor(IDBKeyRange.only(name)), cursor => {
+    cursor.delete();
+    count++;
+  });
+  console.log(`Purged ${count} persisted tiles of table: ${name}`);
+  return count;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function countStoredBytes(): Promise<number> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  let bytes = 0;
+  await iterateCursor(store.openCursor(), cursor => {
+    bytes += (cursor.value as PersistedTile).size + ENTRY_OVERHEAD_BYTES;
+  });
+  return bytes;
+}
+
+// Runs one eviction at a time; writes during an eviction are counted by it or by the next one
+function scheduleEviction(): void {
+  if (eviction) return;
+  eviction = evictLeastRecentlyUsed()
+    .catch(error => console.warn('Failed to evict persisted tiles:', error))
+    .finally(() => {
+      eviction = null;
+    });
+}
+
+/**
+ * Delete the least recently used tiles until the store fits its budget
+ */
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const total = await countStoredBytes();
+  const db = await openDatabase();
+  const index = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).index(LAST_USED_INDEX);
+
+  let remaining = total;
+  let evicted = 0;
+  if (remaining > maxBytes) {
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || remaining <= maxBytes) {
+          resolve();
+          return;
+        }
+        remaining -= (cursor.value as PersistedTile).size + ENTRY_OVERHEAD_BYTES;
+        evicted++;
+        cursor.delete();
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  storedBytes = remaining;
+  if (evicted > 0) {
+    console.log(`Evicted ${evicted} persisted tiles (${((total - remaining) / 1024 / 1024).toFixed(2)}MB)`);
+  }
+}
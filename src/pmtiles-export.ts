@@ -0,0 +1,270 @@
+/**
+ * PMTiles v3 Export
+ *
+ * Writes the tile pyramid of a registered layer to a single PMTiles archive
+ * that can be served statically or opened with the pmtiles library, without
+ * DuckDB.
+ *
+ * Archive layout: header, root directory, metadata, leaf directories, tile data.
+ * Directories and metadata are gzip-compressed; tiles are stored uncompressed.
+ * Identical tiles are stored once, and consecutive identical tiles share one
+ * run-length encoded directory entry.
+ *
+ * Spec: https://github.com/protomaps/PMTiles/blob/main/spec/v3/spec.md
+ */
+
+import { walkTilePyramid } from './tile-pyramid';
+import { gzip, sha256Hex } from './bytes';
+import { resolvePropertyColumns, getVectorLayerFieldType } from './property-encoding';
+import type { DuckDBLayerConfig } from './duckdb-protocol';
+import type { TilePyramidOptions } from './tile-pyramid';
+
+const HEADER_SIZE = 127;
+// Header and root directory must fit in the first 16KiB of the archive
+const MAX_ROOT_DIRECTORY_SIZE = 16384 - HEADER_SIZE;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_GZIP = 2;
+const TILE_TYPE_MVT = 1;
+
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;  // 0 for leaf directory entries
+}
+
+export interface PMTilesExportOptions extends TilePyramidOptions {
+  name?: string;  // Archive name in metadata (defaults to tableName)
+}
+
+/**
+ * Export a layer's tile pyramid to a PMTiles v3 archive
+ *
+ * @param config - Registered layer configuration
+ * @param options - Zoom range, optional bbox and progress callback
+ * @returns The archive as a Blob
+ */
+export async function exportPMTiles(
+  config: DuckDBLayerConfig,
+  options: PMTilesExportOptions
+): Promise<Blob> {
+  const tiles: { tileId: number; data: Uint8Array; hash: string }[] = [];
+
+  const { bbox, requestedTiles } = await walkTilePyramid(config, options, async (zxy, data) => {
+    tiles.push({
+      tileId: zxyToTileId(zxy.z, zxy.x, zxy.y),
+      data,
+      hash: await sha256Hex(data)
+    });
+  });
+
+  // Write tile data in tile id order so that the archive is clustered
+  tiles.sort((a, b) => a.tileId - b.tileId);
+
+  const entries: DirectoryEntry[] = [];
+  const tileData: Uint8Array[] = [];
+  const contents = new Map<string, { offset: number; length: number }>();
+  let tileDataLength = 0;
+
+  for (const tile of tiles) {
+    let content = contents.get(tile.hash);
+    if (!content) {
+      content = { offset: tileDataLength, length: tile.data.length };
+      contents.set(tile.hash, content);
+      tileData.push(tile.data);
+      tileDataLength += tile.data.length;
+    }
+
+    // Extend the previous run if this tile repeats it at the next tile id
+    const last = entries[entries.length - 1];
+    if (last && last.offset === content.offset && last.tileId + last.runLength === tile.tileId) {
+      last.runLength++;
+    } else {
+      entries.push({ tileId: tile.tileId, offset: content.offset, length: content.length, runLength: 1 });
+    }
+  }
+
+  const { rootDirectory, leafDirectories } = await buildDirectories(entries);
+
+  const properties = await resolvePropertyColumns(config, config.propertyColumns);
+  const metadata = await gzip(new TextEncoder().encode(JSON.stringify({
+    name: options.name ?? config.tableName,
+    format: 'pbf',
+    generator: 'duckdb-wasm-mvt',
+    vector_layers: [{
+      id: 'v',
+      fields: Object.fromEntries(properties.map(col => [col.name, getVectorLayerFieldType(col.kind)])),
+      minzoom: options.minZoom,
+      maxzoom: options.maxZoom
+    }]
+  })));
+
+  const rootDirectoryOffset = HEADER_SIZE;
+  const metadataOffset = rootDirectoryOffset + rootDirectory.length;
+  const leafDirectoriesOffset = metadataOffset + metadata.length;
+  const tileDataOffset = leafDirectoriesOffset + leafDirectories.length;
+
+  const header = new ArrayBuffer(HEADER_SIZE);
+  const view = new DataView(header);
+  new Uint8Array(header).set(new TextEncoder().encode('PMTiles'), 0);
+  view.setUint8(7, 3);  // Spec version
+  setUint64(view, 8, rootDirectoryOffset);
+  setUint64(view, 16, rootDirectory.length);
+  setUint64(view, 24, metadataOffset);
+  setUint64(view, 32, metadata.length);
+  setUint64(view, 40, leafDirectoriesOffset);
+  setUint64(view, 48, leafDirectories.length);
+  setUint64(view, 56, tileDataOffset);
+  setUint64(view, 64, tileDataLength);
+  setUint64(view, 72, tiles.length);          // Addressed tiles
+  setUint64(view, 80, entries.length);        // Tile entries
+  setUint64(view, 88, contents.size);         // Tile contents
+  view.setUint8(96, 1);                       // Clustered
+  view.setUint8(97, COMPRESSION_GZIP);        // Internal compression
+  view.setUint8(98, COMPRESSION_NONE);        // Tile compression
+  view.setUint8(99, TILE_TYPE_MVT);
+  view.setUint8(100, options.minZoom);
+  view.setUint8(101, options.maxZoom);
+  view.setInt32(102, Math.round(bbox[0] * 1e7), true);
+  view.setInt32(106, Math.round(bbox[1] * 1e7), true);
+  view.setInt32(110, Math.round(bbox[2] * 1e7), true);
+  view.setInt32(114, Math.round(bbox[3] * 1e7), true);
+  view.setUint8(118, options.minZoom);        // Center zoom
+  view.setInt32(119, Math.round(((bbox[0] + bbox[2]) / 2) * 1e7), true);
+  view.setInt32(123, Math.round(((bbox[1] + bbox[3]) / 2) * 1e7), true);
+
+  console.log(`📦 PMTiles export of ${config.tableName}:`, {
+    requestedTiles,
+    addressedTiles: tiles.length,
+    uniqueTiles: contents.size,
+    size: `${((tileDataOffset + tileDataLength) / 1024).toFixed(2)}KB`
+  });
+
+  return new Blob(
+    [header, rootDirectory, metadata, leafDirectories, ...tileData] as BlobPart[],
+    { type: 'application/vnd.pmtiles' }
+  );
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert tile coordinates to a PMTiles tile id
+ *
+ * Tile ids count all tiles of lower zooms, then follow a Hilbert curve
+ * within the zoom level.
+ */
+export function zxyToTileId(z: number, x: number, y: number): number {
+  if (z > 26) {
+    throw new Error('Tile zoom exceeds 64-bit limit');
+  }
+
+  const n = 2 ** z;
+  let acc = (4 ** z - 1) / 3;  // Number of tiles in zooms 0..z-1
+  let tx = x;
+  let ty = y;
+
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (tx & s) > 0 ? 1 : 0;
+    const ry = (ty & s) > 0 ? 1 : 0;
+    acc += s * s * ((3 * rx) ^ ry);
+
+    // Rotate the quadrant
+    if (ry === 0) {
+      if (rx === 1) {
+        tx = s - 1 - tx;
+        ty = s - 1 - ty;
+      }
+      [tx, ty] = [ty, tx];
+    }
+  }
+
+  return acc;
+}
+
+/**
+ * Serialize and compress directory entries
+ *
+ * Columns are written separately as varints: tile id deltas, run lengths,
+ * lengths, then offsets (0 when contiguous with the previous entry, else offset + 1).
+ */
+async function serializeDirectory(entries: DirectoryEntry[]): Promise<Uint8Array> {
+  const bytes: number[] = [];
+  writeVarint(bytes, entries.length);
+
+  let lastTileId = 0;
+  for (const entry of entries) {
+    writeVarint(bytes, entry.tileId - lastTileId);
+    lastTileId = entry.tileId;
+  }
+  for (const entry of entries) {
+    writeVarint(bytes, entry.runLength);
+  }
+  for (const entry of entries) {
+    writeVarint(bytes, entry.length);
+  }
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    if (previous && entry.offset === previous.offset + previous.length) {
+      writeVarint(bytes, 0);
+    } else {
+      writeVarint(bytes, entry.offset + 1);
+    }
+  });
+
+  return gzip(new Uint8Array(bytes));
+}
+
+/**
+ * Build the root directory, splitting entries into leaf directories if
+ * the root directory would not fit in the first 16KiB
+ */
+async function buildDirectories(
+  entries: DirectoryEntry[]
+): Promise<{ rootDirectory: Uint8Array; leafDirectories: Uint8Array }> {
+  const rootDirectory = await serializeDirectory(entries);
+  if (rootDirectory.length <= MAX_ROOT_DIRECTORY_SIZE) {
+    return { rootDirectory, leafDirectories: new Uint8Array() };
+  }
+
+  for (let leafSize = 4096; ; leafSize *= 2) {
+    const rootEntries: DirectoryEntry[] = [];
+    const leaves: Uint8Array[] = [];
+    let leavesLength = 0;
+
+    for (let i = 0; i < entries.length; i += leafSize) {
+      const chunk = entries.slice(i, i + leafSize);
+      const leaf = await serializeDirectory(chunk);
+      rootEntries.push({ tileId: chunk[0].tileId, offset: leavesLength, length: leaf.length, runLength: 0 });
+      leaves.push(leaf);
+      leavesLength += leaf.length;
+    }
+
+    const root = await serializeDirectory(rootEntries);
+    if (root.length <= MAX_ROOT_DIRECTORY_SIZE) {
+      const leafDirectories = new Uint8Array(leavesLength);
+      let offset = 0;
+      for (const leaf of leaves) {
+        leafDirectories.set(leaf, offset);
+        offset += leaf.length;
+      }
+      return { rootDirectory: root, leafDirectories };
+    }
+  }
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  // Arithmetic instead of bitwise ops, which truncate to 32 bits
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+}
+
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setBigUint64(offset, BigInt(value), true);
+}
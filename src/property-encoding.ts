@@ -0,0 +1,166 @@
+/**
+ * Type-aware encoding of feature properties
+ *
+ * MVT property values are strings, numbers or booleans. Each property column
+ * is mapped to one of these from its DuckDB type in information_schema, and
+ * both generators select it with the same SQL expression, so tiles carry the
+ * same typed values whichever method built them. Numeric properties then
+ * work with data-driven styling such as `interpolate`.
+ */
+
+import { executeSql } from './duckdb';
+
+/**
+ * How a column is encoded:
+ * - integer / double: MVT numeric value
+ * - boolean: MVT boolean value
+ * - string: MVT string value (text, dates, enums, ...)
+ * - json: nested LIST/STRUCT/MAP values as a JSON string
+ */
+export type PropertyKind = 'integer' | 'double' | 'boolean' | 'string' | 'json';
+
+export interface PropertyColumn {
+  name: string;
+  kind: PropertyKind;
+}
+
+export interface PropertyTable {
+  tableName: string;
+  schema?: string;
+}
+
+// Column name -> DuckDB data type, per qualified table name
+const columnTypes = new Map<string, Promise<Map<string, string>>>();
+// Columns already reported as unsupported, to warn only once
+const warnedColumns = new Set<string>();
+
+const INTEGER_TYPES = ['TINYINT', 'SMALLINT', 'INTEGER', 'BIGINT', 'UTINYINT', 'USMALLINT', 'UINTEGER'];
+// UBIGINT and HUGEINT don't fit in a BIGINT
+const DOUBLE_TYPES = ['FLOAT', 'DOUBLE', 'UBIGINT', 'HUGEINT', 'UHUGEINT'];
+const STRING_TYPES = /^(VARCHAR|JSON|UUID|INTERVAL|DATE|TIME|TIMESTAMP)/;
+
+/**
+ * Map a DuckDB data type to its encoding, or null if it can't be encoded
+ */
+export function getPropertyKind(dataType: string): PropertyKind | null {
+  const type = dataType.toUpperCase();
+
+  if (type === 'BOOLEAN') return 'boolean';
+  if (INTEGER_TYPES.includes(type)) return 'integer';
+  if (DOUBLE_TYPES.includes(type) || type.startsWith('DECIMAL')) return 'double';
+  if (type.endsWith(']') || /^(STRUCT|MAP|UNION)\(/.test(type)) return 'json';
+  if (STRING_TYPES.test(type) || type.startsWith('ENUM(')) return 'string';
+
+  // BLOB, BIT, GEOMETRY and other binary types
+  return null;
+}
+
+/**
+ * Resolve the encoding of a layer's property columns
+ *
+ * Columns that don't exist or have an unsupported type are dropped with a
+ * warning. Column types are memoized until forgetPropertyTypes is called.
+ */
+export async function resolvePropertyColumns(
+  table: PropertyTable,
+  propertyColumns: string[]
+): Promise<PropertyColumn[]> {
+  const types = await getColumnTypes(table);
+  const columns: PropertyColumn[] = [];
+
+  for (const name of propertyColumns) {
+    const dataType = types.get(name);
+    const kind = dataType ? getPropertyKind(dataType) : null;
+
+    if (kind) {
+      columns.push({ name, kind });
+      continue;
+    }
+
+    const warningKey = `${qualifiedName(table)}.${name}`;
+    if (!warnedColumns.has(warningKey)) {
+      warnedColumns.add(warningKey);
+      console.warn(dataType
+        ? `Dropping property ${name} of ${qualifiedName(table)}: unsupported type ${dataType}`
+        : `Dropping property ${name}: no such column in ${qualifiedName(table)}`);
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Forget the memoized column types of a table after it was replaced or altered
+ */
+export function forgetPropertyTypes(table: PropertyTable): void {
+  const name = qualifiedName(table);
+  columnTypes.delete(name);
+  for (const key of warnedColumns) {
+    if (key.startsWith(`${name}.`)) {
+      warnedColumns.delete(key);
+    }
+  }
+}
+
+/**
+ * SQL expression selecting a property column with its encoding
+ */
+export function propertyValueSql(column: PropertyColumn): string {
+  const ref = `"${column.name}"`;
+  switch (column.kind) {
+    case 'integer': return `CAST(${ref} AS BIGINT)`;
+    case 'double': return `CAST(${ref} AS DOUBLE)`;
+    case 'boolean': return ref;
+    case 'string': return `CAST(${ref} AS VARCHAR)`;
+    case 'json': return `to_json(${ref})::VARCHAR`;
+  }
+}
+
+/**
+ * Convert a value read through Arrow to a GeoJSON property value
+ *
+ * BIGINT columns arrive as bigint, which geojson-vt and vt-pbf can't encode.
+ */
+export function toPropertyValue(value: unknown): string | number | boolean {
+  return typeof value === 'bigint' ? Number(value) : value as string | number | boolean;
+}
+
+/**
+ * Field type of a property in TileJSON / MBTiles vector_layers metadata
+ */
+export function getVectorLayerFieldType(kind: PropertyKind): 'Number' | 'Boolean' | 'String' {
+  if (kind === 'integer' || kind === 'double') return 'Number';
+  if (kind === 'boolean') return 'Boolean';
+  return 'String';
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function qualifiedName(table: PropertyTable): string {
+  return table.schema ? `${table.schema}.${table.tableName}` : table.tableName;
+}
+
+function getColumnTypes(table: PropertyTable): Promise<Map<string, string>> {
+  const name = qualifiedName(table);
+  let types = columnTypes.get(name);
+
+  if (!types) {
+    const schemaCondition = table.schema
+      ? `table_schema = '${table.schema.replace(/'/g, "''")}'`
+      : 'table_schema = current_schema()';
+
+    types = executeSql(`
+      SELECT column_name, data_type
+      FROM information_schema.columns
+      WHERE table_name = '${table.tableName.replace(/'/g, "''")}' AND ${schemaCondition}
+    `).then(rows => new Map(rows.map(row => [row.column_name as string, row.data_type as string])));
+
+    columnTypes.set(name, types);
+    // Don't memoize failures
+    types.catch(() => columnTypes.delete(name));
+  }
+
+  return types;
+}
@@ -0,0 +1,38 @@
+/**
+ * Percentile summaries of timing and size samples
+ *
+ * Shared by the performance panel and the benchmark runner so both report
+ * the same statistics.
+ */
+
+export interface Percentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+  mean: number;
+}
+
+/**
+ * Nearest-rank percentile of values sorted in ascending order (0 if empty)
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Summarize values in any order
+ */
+export function getPercentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    mean: sorted.length > 0 ? sum / sorted.length : 0
+  };
+}
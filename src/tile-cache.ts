@@ -0,0 +1,121 @@
+/**
+ * In-memory LRU cache for generated tiles
+ *
+ * Bounded by the total byte size of the cached tiles rather than the entry
+ * count, since tile sizes vary by orders of magnitude between zoom levels.
+ * Relies on Map preserving insertion order: the first key is always the
+ * least recently used one.
+ */
+
+// Fixed per-entry cost so that empty tiles also count towards the budget
+const ENTRY_OVERHEAD_BYTES = 64;
+
+interface CacheEntry {
+  configId: string;
+  data: Uint8Array;
+}
+
+export class TileCache {
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private maxBytes: number;
+  // Stamped on invalidation so that tiles still being generated are not stored
+  private generationCounter = 0;
+  private clearedGeneration = 0;
+  private generations = new Map<string, number>();
+
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+  }
+
+  get(key: string): Uint8Array | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.data;
+  }
+
+  /**
+   * Current generation of a config id, to be passed back to set()
+   */
+  getGeneration(configId: string): number {
+    return Math.max(this.clearedGeneration, this.generations.get(configId) ?? 0);
+  }
+
+  set(key: string, configId: string, data: Uint8Array, generation: number): void {
+    // The config was invalidated while this tile was being generated
+    if (generation !== this.getGeneration(configId)) {
+      return;
+    }
+
+    this.delete(key);
+
+    const size = data.byteLength + ENTRY_OVERHEAD_BYTES;
+    if (size > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, { configId, data });
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.totalBytes -= entry.data.byteLength + ENTRY_OVERHEAD_BYTES;
+    }
+  }
+
+  /**
+   * Remove all tiles generated for a config id
+   */
+  invalidate(configId: string): number {
+    this.generations.set(configId, ++this.generationCounter);
+
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.configId === configId) {
+        this.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    // Invalidates every config id at once, including ones without tiles yet
+    this.clearedGeneration = ++this.generationCounter;
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  setMaxBytes(maxBytes: number): void {
+    this.maxBytes = maxBytes;
+    this.evict();
+  }
+
+  getStats(): { entries: number; bytes: number; maxBytes: number } {
+    return {
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes
+    };
+  }
+
+  private evict(): void {
+    while (this.totalBytes > this.maxBytes) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+}
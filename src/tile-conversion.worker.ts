@@ -0,0 +1,19 @@
+/**
+ * Conversion worker: runs the GeoJSON to MVT stage off the main thread
+ *
+ * Receives one ConversionRequest at a time and answers with the encoded
+ * tile, transferring its buffer back.
+ */
+
+import { convertGeoJSONTile } from './geojson-conversion';
+import type { ConversionRequest } from './geojson-conversion';
+
+self.addEventListener('message', (event: MessageEvent<{ id: number; request: ConversionRequest }>) => {
+  const { id, request } = event.data;
+  try {
+    const result = convertGeoJSONTile(request);
+    self.postMessage({ id, result }, { transfer: [result.data.buffer] });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
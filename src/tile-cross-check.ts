@@ -0,0 +1,561 @@
+/**
+ * Cross-check mode for verifying the tile generators against each other
+ *
+ * The native and GeoJSON generators clip against different envelopes
+ * (EPSG:3857 ST_TileEnvelope vs EPSG:4326 ST_MakeEnvelope), with different
+ * buffers (256 vs 0) and simplify in a different order, so their tiles for
+ * the same z/x/y differ. While enabled, every requested tile is generated
+ * again with both, decoded and compared: feature counts, property values
+ * and the geometry deviation of matching features in tile units. Checks run
+ * one at a time in the background, after the tile has been served.
+ */
+
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import { VectorTile } from '@mapbox/vector-tile';
+import type { VectorTileLayer } from '@mapbox/vector-tile';
+import Pbf from 'pbf';
+import { acquireConnection, releaseConnection } from './duckdb';
+import { nativeTileGenerator } from './tile-generation-native';
+import type { TileCoordinates, LayerConfig } from './tile-generation-native';
+import { geojsonTileGenerator } from './tile-generation-geojson';
+import type { TileGenerator } from './tile-generators';
+import { escapeHtml, toCsvValue } from './escaping';
+
+export type DiscrepancyKind = 'feature-count' | 'missing' | 'geometry-type' | 'property' | 'geometry' | 'error';
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  feature: string;  // "id 42", or "#3" (index in the generator's tile) without ids; empty for the whole layer
+  detail: string;
+}
+
+export interface CrossCheckLayerResult {
+  layerName: string;
+  tableName: string;
+  referenceFeatures: number;
+  candidateFeatures: number;
+  matchedFeatures: number;
+  maxDeviation: number | null;   // Tile units, over matched features (null if none was measured)
+  meanDeviation: number | null;
+  discrepancies: Discrepancy[];
+}
+
+export interface CrossCheckResult {
+  configId: string;
+  tileId: string;
+  z: number;
+  reference: string;  // Generator names
+  candidate: string;
+  timestamp: number;
+  discrepancies: number;
+  layers: CrossCheckLayerResult[];
+}
+
+// Generators compared with each other, the first one is the reference
+const REFERENCE_GENERATOR: TileGenerator = nativeTileGenerator;
+const CANDIDATE_GENERATOR: TileGenerator = geojsonTileGenerator;
+
+// Geometries deviating by more than this many tile units are reported;
+// both generators snap to the integer grid, so smaller deviations are rounding
+const GEOMETRY_TOLERANCE = 1;
+
+// Features without ids are only paired by position within this many tile
+// units of each other, the native generator's buffer
+const MAX_MATCH_DISTANCE = 256;
+
+// Skip the deviation of feature pairs with more vertex/segment combinations
+const MAX_DEVIATION_WORK = 1_000_000;
+
+// Tiles waiting to be checked are dropped beyond this
+const MAX_PENDING_CHECKS = 100;
+
+// Checked tiles kept, oldest are dropped first
+const MAX_RESULTS = 500;
+
+const REPORT_FIELDS = ['timestamp', 'configId', 'tileId', 'layer', 'kind', 'feature', 'detail'] as const;
+
+const GEOMETRY_TYPE_NAMES = ['Unknown', 'Point', 'LineString', 'Polygon'];
+
+let enabled = false;
+let results: CrossCheckResult[] = [];
+const checkedTiles = new Set<string>();
+const listeners = new Set<() => void>();
+let queue: Promise<void> = Promise.resolve();
+let pendingChecks = 0;
+
+interface DecodedFeature {
+  index: number;
+  id: number | undefined;
+  type: number;
+  properties: Record<string, string | number | boolean>;
+  geometry: { x: number; y: number }[][];
+  center: { x: number; y: number };
+}
+
+/**
+ * Enable or disable cross-checking of requested tiles
+ */
+export function setCrossCheckEnabled(value: boolean): void {
+  enabled = value;
+}
+
+export function isCrossCheckEnabled(): boolean {
+  return enabled;
+}
+
+/**
+ * Queue a tile to be generated with both generators and compared
+ *
+ * Each tile of a layer or layer group is checked once until the results
+ * are cleared.
+ */
+export function scheduleCrossCheck(configId: string, layerConfigs: LayerConfig[], zxy: TileCoordinates): void {
+  const tileId = `${zxy.z}/${zxy.x}/${zxy.y}`;
+  const key = `${configId}:${tileId}`;
+  if (!enabled || checkedTiles.has(key)) {
+    return;
+  }
+  if (pendingChecks >= MAX_PENDING_CHECKS) {
+    console.warn(`Cross-check queue full, skipping tile ${tileId}`);
+    return;
+  }
+
+  checkedTiles.add(key);
+  pendingChecks++;
+  queue = queue
+    .then(async () => {
+      // Checks queued before the mode was switched off are dropped
+      if (!enabled) return;
+      addResult(await crossCheckTile(configId, layerConfigs, zxy));
+    })
+    .catch(error => {
+      console.error(`Cross-check of tile ${tileId} failed:`, error);
+    })
+    .finally(() => {
+      pendingChecks--;
+    });
+}
+
+/**
+ * Generate a tile with both generators and compare the decoded tiles
+ */
+export async function crossCheckTile(
+  configId: string,
+  layerConfigs: LayerConfig[],
+  zxy: TileCoordinates
+): Promise<CrossCheckResult> {
+  const conn = await acquireConnection();
+  try {
+    const layers: CrossCheckLayerResult[] = [];
+    for (const config of layerConfigs) {
+      layers.push(await crossCheckLayer(conn, config, zxy));
+    }
+
+    return {
+      configId,
+      tileId: `${zxy.z}/${zxy.x}/${zxy.y}`,
+      z: zxy.z,
+      reference: REFERENCE_GENERATOR.name,
+      candidate: CANDIDATE_GENERATOR.name,
+      timestamp: Date.now(),
+      discrepancies: layers.reduce((sum, layer) => sum + layer.discrepancies.length, 0),
+      layers
+    };
+  } finally {
+    releaseConnection(conn);
+  }
+}
+
+/**
+ * Checked tiles, oldest first
+ */
+export function getCrossCheckResults(): readonly CrossCheckResult[] {
+  return results;
+}
+
+export function clearCrossCheckResults(): void {
+  results = [];
+  checkedTiles.clear();
+  notifyListeners();
+}
+
+/**
+ * Call listener whenever a tile has been checked or the results are cleared
+ *
+ * @returns A function that unsubscribes the listener
+ */
+export function subscribeCrossCheck(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Export the results, as JSON or as CSV with one row per discrepancy
+ */
+export function exportCrossCheckReport(format: 'json' | 'csv'): string {
+  if (format === 'json') {
+    return JSON.stringify(results, null, 2);
+  }
+
+  const rows = results.flatMap(result => result.layers.flatMap(layer =>
+    layer.discrepancies.map(discrepancy => {
+      const row = {
+        timestamp: result.timestamp,
+        configId: result.configId,
+        tileId: result.tileId,
+        layer: layer.layerName,
+        ...discrepancy
+      };
+      return REPORT_FIELDS.map(field => toCsvValue(row[field])).join(',');
+    })
+  ));
+  return [REPORT_FIELDS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * HTML for the cross-check panel, latest tiles first
+ */
+export function renderCrossCheckResults(limit = 50): string {
+  if (results.length === 0) {
+    return `<div style="color: #888;">No tiles checked yet</div>`;
+  }
+
+  const withDiscrepancies = results.filter(result => result.discrepancies > 0).length;
+  const summary = `<div style="margin-bottom: 6px;">${results.length} tiles checked (${REFERENCE_GENERATOR.label} vs ${CANDIDATE_GENERATOR.label}), ${withDiscrepancies} with discrepancies</div>`;
+
+  const tiles = results.slice(-limit).reverse().map(result => {
+    const title = `${result.tileId} · ${escapeHtml(result.configId)}`;
+    if (result.discrepancies === 0) {
+      return `<div style="padding: 2px 0;">✅ ${title}</div>`;
+    }
+
+    const layers = result.layers.map(layer => {
+      const deviation = layer.maxDeviation === null
+        ? '-'
+        : `max ${layer.maxDeviation.toFixed(1)}, mean ${layer.meanDeviation!.toFixed(1)}`;
+      const rows = layer.discrepancies.slice(0, 20)
+        .map(discrepancy => `<tr>
+            <td>${discrepancy.kind}</td>
+            <td>${escapeHtml(discrepancy.feature)}</td>
+            <td>${escapeHtml(discrepancy.detail)}</td>
+          </tr>`)
+        .join('');
+      const more = layer.discrepancies.length > 20
+        ? `<div style="color: #888;">…and ${layer.discrepancies.length - 20} more</div>`
+        : '';
+
+      return `<div style="margin: 4px 0 4px 8px;">
+        <div><strong>${escapeHtml(layer.tableName)}</strong> → "${escapeHtml(layer.layerName)}":
+          ${layer.referenceFeatures} vs ${layer.candidateFeatures} features, ${layer.matchedFeatures} matched</div>
+        <div>Deviation (tile units): ${deviation}</div>
+        ${rows ? `<table style="width: 100%; font-size: 11px;">${rows}</table>${more}` : ''}
+      </div>`;
+    }).join('');
+
+    return `<details style="padding: 2px 0;">
+      <summary>⚠️ ${title} · ${result.discrepancies} discrepancies</summary>
+      ${layers}
+    </details>`;
+  }).join('');
+
+  return summary + tiles;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function addResult(result: CrossCheckResult): void {
+  results.push(result);
+  if (results.length > MAX_RESULTS) {
+    results.shift();
+  }
+  notifyListeners();
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+async function crossCheckLayer(
+  conn: AsyncDuckDBConnection,
+  config: LayerConfig,
+  zxy: TileCoordinates
+): Promise<CrossCheckLayerResult> {
+  const layerName = config.layerName ?? 'v';
+  const result: CrossCheckLayerResult = {
+    layerName,
+    tableName: config.tableName,
+    referenceFeatures: 0,
+    candidateFeatures: 0,
+    matchedFeatures: 0,
+    maxDeviation: null,
+    meanDeviation: null,
+    discrepancies: []
+  };
+
+  let referenceLayer: VectorTileLayer | undefined;
+  let candidateLayer: VectorTileLayer | undefined;
+  try {
+    referenceLayer = decodeLayer((await REFERENCE_GENERATOR.generate(conn, config, zxy)).data, layerName);
+    candidateLayer = decodeLayer((await CANDIDATE_GENERATOR.generate(conn, config, zxy)).data, layerName);
+  } catch (error) {
+    result.discrepancies.push({
+      kind: 'error',
+      feature: '',
+      detail: error instanceof Error ? error.message : String(error)
+    });
+    return result;
+  }
+
+  // Compare in the reference tile's coordinates
+  const extent = referenceLayer?.extent ?? candidateLayer?.extent ?? 4096;
+  const reference = decodeFeatures(referenceLayer, 1);
+  const candidate = decodeFeatures(candidateLayer, candidateLayer ? extent / candidateLayer.extent : 1);
+  result.referenceFeatures = reference.length;
+  result.candidateFeatures = candidate.length;
+
+  if (reference.length !== candidate.length) {
+    result.discrepancies.push({
+      kind: 'feature-count',
+      feature: '',
+      detail: `${REFERENCE_GENERATOR.label} ${reference.length} vs ${CANDIDATE_GENERATOR.label} ${candidate.length}`
+    });
+  }
+
+  const { pairs, unmatchedReference, unmatchedCandidate } = matchFeatures(reference, candidate);
+  result.matchedFeatures = pairs.length;
+
+  for (const feature of unmatchedReference) {
+    result.discrepancies.push({
+      kind: 'missing',
+      feature: getFeatureLabel(feature),
+      detail: `Only in ${REFERENCE_GENERATOR.label}${isOutsideTile(feature, extent) ? ' (outside the tile, in the buffer)' : ''}`
+    });
+  }
+  for (const feature of unmatchedCandidate) {
+    result.discrepancies.push({
+      kind: 'missing',
+      feature: getFeatureLabel(feature),
+      detail: `Only in ${CANDIDATE_GENERATOR.label}${isOutsideTile(feature, extent) ? ' (outside the tile, in the buffer)' : ''}`
+    });
+  }
+
+  const deviations: number[] = [];
+  for (const [a, b] of pairs) {
+    const feature = getFeatureLabel(a);
+
+    if (a.type !== b.type) {
+      result.discrepancies.push({
+        kind: 'geometry-type',
+        feature,
+        detail: `${GEOMETRY_TYPE_NAMES[a.type]} vs ${GEOMETRY_TYPE_NAMES[b.type]}`
+      });
+    }
+
+    for (const key of new Set([...Object.keys(a.properties), ...Object.keys(b.properties)])) {
+      if (!isSameValue(a.properties[key], b.properties[key])) {
+        result.discrepancies.push({
+          kind: 'property',
+          feature,
+          detail: `${key}: ${formatValue(a.properties[key])} vs ${formatValue(b.properties[key])}`
+        });
+      }
+    }
+
+    const deviation = getDeviation(a.geometry, b.geometry);
+    if (deviation === null) continue;
+    deviations.push(deviation);
+    if (deviation > GEOMETRY_TOLERANCE) {
+      result.discrepancies.push({
+        kind: 'geometry',
+        feature,
+        detail: `Deviates by ${deviation.toFixed(1)} tile units`
+      });
+    }
+  }
+
+  if (deviations.length > 0) {
+    result.maxDeviation = Math.max(...deviations);
+    result.meanDeviation = deviations.reduce((sum, value) => sum + value, 0) / deviations.length;
+  }
+
+  return result;
+}
+
+function decodeLayer(data: Uint8Array, layerName: string): VectorTileLayer | undefined {
+  return data.length > 0 ? new VectorTile(new Pbf(data)).layers[layerName] : undefined;
+}
+
+function decodeFeatures(layer: VectorTileLayer | undefined, scale: number): DecodedFeature[] {
+  const features: DecodedFeature[] = [];
+  if (!layer) {
+    return features;
+  }
+
+  for (let i = 0; i < layer.length; i++) {
+    const feature = layer.feature(i);
+    const geometry = feature.loadGeometry().map(ring => ring.map(point => ({ x: point.x * scale, y: point.y * scale })));
+    const points = geometry.flat();
+    features.push({
+      index: i,
+      id: feature.id,
+      type: feature.type,
+      properties: feature.properties,
+      geometry,
+      center: {
+        x: points.reduce((sum, point) => sum + point.x, 0) / Math.max(1, points.length),
+        y: points.reduce((sum, point) => sum + point.y, 0) / Math.max(1, points.length)
+      }
+    });
+  }
+  return features;
+}
+
+/**
+ * Pair up features of both tiles
+ *
+ * Features are matched by id first, then by identical type and properties,
+ * and the rest by nearest center, so property differences of features
+ * without ids are still reported. Features whose nearest center is farther
+ * than MAX_MATCH_DISTANCE are reported as missing instead of being paired
+ * with an unrelated feature.
+ */
+function matchFeatures(reference: DecodedFeature[], candidate: DecodedFeature[]): {
+  pairs: [DecodedFeature, DecodedFeature][];
+  unmatchedReference: DecodedFeature[];
+  unmatchedCandidate: DecodedFeature[];
+} {
+  const pairs: [DecodedFeature, DecodedFeature][] = [];
+  let remaining = { reference, candidate };
+
+  const withId = (feature: DecodedFeature) => feature.id === undefined ? null : String(feature.id);
+  const signature = (feature: DecodedFeature) => JSON.stringify([
+    feature.type,
+    Object.entries(feature.properties).sort(([a], [b]) => a.localeCompare(b))
+  ]);
+
+  for (const keyOf of [withId, signature]) {
+    const byKey = new Map<string, DecodedFeature[]>();
+    for (const feature of remaining.candidate) {
+      const key = keyOf(feature);
+      if (key === null) continue;
+      const features = byKey.get(key);
+      if (features) {
+        features.push(feature);
+      } else {
+        byKey.set(key, [feature]);
+      }
+    }
+
+    const unmatched: DecodedFeature[] = [];
+    const matched = new Set<DecodedFeature>();
+    for (const feature of remaining.reference) {
+      const key = keyOf(feature);
+      const match = key !== null ? byKey.get(key)?.shift() : undefined;
+      if (match) {
+        pairs.push([feature, match]);
+        matched.add(match);
+      } else {
+        unmatched.push(feature);
+      }
+    }
+    remaining = { reference: unmatched, candidate: remaining.candidate.filter(feature => !matched.has(feature)) };
+  }
+
+  // Features with ids whose id didn't match are reported, not paired by position
+  const unmatchedReference = remaining.reference.filter(feature => feature.id !== undefined);
+  const unmatchedCandidate = remaining.candidate.filter(feature => feature.id !== undefined);
+  const candidates = remaining.candidate.filter(feature => feature.id === undefined);
+
+  for (const feature of remaining.reference.filter(feature => feature.id === undefined)) {
+    let nearest = -1;
+    let nearestDistance = MAX_MATCH_DISTANCE;
+    candidates.forEach((other, i) => {
+      const distance = Math.hypot(feature.center.x - other.center.x, feature.center.y - other.center.y);
+      if (distance <= nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+
+    if (nearest >= 0) {
+      pairs.push([feature, candidates.splice(nearest, 1)[0]]);
+    } else {
+      unmatchedReference.push(feature);
+    }
+  }
+  unmatchedCandidate.push(...candidates);
+
+  return { pairs, unmatchedReference, unmatchedCandidate };
+}
+
+/**
+ * Symmetric distance between two geometries: the largest distance of a
+ * vertex of either one to the nearest segment of the other, in tile units
+ *
+ * Returns null for geometries too large to compare.
+ */
+function getDeviation(a: { x: number; y: number }[][], b: { x: number; y: number }[][]): number | null {
+  const verticesA = a.reduce((sum, ring) => sum + ring.length, 0);
+  const verticesB = b.reduce((sum, ring) => sum + ring.length, 0);
+  if (verticesA === 0 || verticesB === 0 || 2 * verticesA * verticesB > MAX_DEVIATION_WORK) {
+    return null;
+  }
+  return Math.max(getDirectedDeviation(a, b), getDirectedDeviation(b, a));
+}
+
+function getDirectedDeviation(from: { x: number; y: number }[][], to: { x: number; y: number }[][]): number {
+  // Single-vertex rings (points) are degenerate segments
+  const segments = to.flatMap(ring => ring.length === 1
+    ? [[ring[0], ring[0]]]
+    : ring.slice(1).map((point, i) => [ring[i], point]));
+
+  let deviation = 0;
+  for (const point of from.flat()) {
+    let nearest = Infinity;
+    for (const [start, end] of segments) {
+      nearest = Math.min(nearest, getSegmentDistance(point, start, end));
+    }
+    deviation = Math.max(deviation, nearest);
+  }
+  return deviation;
+}
+
+function getSegmentDistance(
+  point: { x: number; y: number },
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+}
+
+function isOutsideTile(feature: DecodedFeature, extent: number): boolean {
+  const points = feature.geometry.flat();
+  return points.every(point => point.x < 0) || points.every(point => point.x > extent) ||
+    points.every(point => point.y < 0) || points.every(point => point.y > extent);
+}
+
+// Values are equal up to float precision, as a generator may encode doubles as floats
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= 1e-6 * Math.max(1, Math.abs(a), Math.abs(b));
+  }
+  return a === b;
+}
+
+function getFeatureLabel(feature: DecodedFeature): string {
+  return feature.id !== undefined ? `id ${feature.id}` : `#${feature.index}`;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'missing' : JSON.stringify(value);
+}
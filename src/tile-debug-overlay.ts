@@ -0,0 +1,187 @@
+/**
+ * Tile timing overlay for debugging
+ *
+ * Draws the boundary of each requested tile on the map, filled by its
+ * total time from the performance tracker and labeled with z/x/y, layer,
+ * time, size and feature count, so expensive regions of a dataset stand
+ * out. Only tiles of the most recently requested zoom level are drawn, as
+ * tiles of other levels would overlap them.
+ */
+
+import maplibregl from 'maplibre-gl';
+import type { Feature, Polygon } from 'geojson';
+import { performanceTracker } from './performance-tracker';
+import type { TileMetrics } from './performance-tracker';
+import { getTileBounds } from './tile-pyramid';
+
+const SOURCE_ID = 'tile-debug';
+const LAYER_IDS = ['tile-debug-fill', 'tile-debug-outline', 'tile-debug-label'];
+
+// Total time (ms) mapped to green, yellow and red
+const TIME_COLOR_STOPS = [0, '#22c55e', 100, '#facc15', 500, '#ef4444'];
+
+// Vertical distance (ems) between the labels of layers sharing a tile
+const LABEL_SPACING = 3.5;
+
+let overlayMap: maplibregl.Map | null = null;
+let unsubscribe: (() => void) | null = null;
+let refreshScheduled = false;
+
+/**
+ * Show the tile timing overlay on a map
+ */
+export function enableTileDebugOverlay(map: maplibregl.Map): void {
+  if (overlayMap) {
+    return;
+  }
+  overlayMap = map;
+
+  map.addSource(SOURCE_ID, { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+
+  map.addLayer({
+    id: 'tile-debug-fill',
+    type: 'fill',
+    source: SOURCE_ID,
+    paint: {
+      'fill-color': ['interpolate', ['linear'], ['get', 'totalTime'], ...TIME_COLOR_STOPS] as maplibregl.ExpressionSpecification,
+      'fill-opacity': 0.25
+    }
+  });
+
+  map.addLayer({
+    id: 'tile-debug-outline',
+    type: 'line',
+    source: SOURCE_ID,
+    paint: {
+      'line-color': ['interpolate', ['linear'], ['get', 'totalTime'], ...TIME_COLOR_STOPS] as maplibregl.ExpressionSpecification,
+      'line-width': 1.5
+    }
+  });
+
+  map.addLayer({
+    id: 'tile-debug-label',
+    type: 'symbol',
+    source: SOURCE_ID,
+    layout: {
+      'text-field': ['get', 'label'],
+      'text-font': ['Open Sans Semibold'],
+      'text-size': 11,
+      'text-offset': ['get', 'labelOffset'],
+      'text-allow-overlap': true
+    },
+    paint: {
+      'text-color': '#111827',
+      'text-halo-color': '#ffffff',
+      'text-halo-width': 1.5
+    }
+  });
+
+  unsubscribe = performanceTracker.subscribe(scheduleRefresh);
+  refreshOverlay();
+}
+
+/**
+ * Remove the tile timing overlay
+ */
+export function disableTileDebugOverlay(): void {
+  if (!overlayMap) {
+    return;
+  }
+
+  unsubscribe?.();
+  unsubscribe = null;
+  for (const id of LAYER_IDS) {
+    if (overlayMap.getLayer(id)) overlayMap.removeLayer(id);
+  }
+  if (overlayMap.getSource(SOURCE_ID)) overlayMap.removeSource(SOURCE_ID);
+  overlayMap = null;
+}
+
+export function isTileDebugOverlayEnabled(): boolean {
+  return overlayMap !== null;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// Metrics arrive once per tile, so redraw at most once per frame
+function scheduleRefresh(): void {
+  if (refreshScheduled) return;
+  refreshScheduled = true;
+  requestAnimationFrame(() => {
+    refreshScheduled = false;
+    refreshOverlay();
+  });
+}
+
+function refreshOverlay(): void {
+  const source = overlayMap?.getSource(SOURCE_ID) as maplibregl.GeoJSONSource | undefined;
+  if (!overlayMap || !source) {
+    return;
+  }
+
+  source.setData({ type: 'FeatureCollection', features: getTileFeatures(performanceTracker.getSamples()) });
+
+  // Stay above data layers added after the overlay
+  for (const id of LAYER_IDS) {
+    overlayMap.moveLayer(id);
+  }
+}
+
+/**
+ * One feature per tile and layer of the latest zoom level, from the latest sample
+ *
+ * A cache hit doesn't replace the timing of a generated tile, and cancelled
+ * requests are left out. Labels of layers sharing a tile are stacked.
+ */
+function getTileFeatures(samples: readonly TileMetrics[]): Feature<Polygon>[] {
+  const latest = new Map<string, TileMetrics>();
+  let zoom: number | null = null;
+
+  for (const sample of samples) {
+    if (sample.outcome === 'cancelled') continue;
+    zoom = sample.z;
+
+    const key = `${sample.source}:${sample.tileId}`;
+    const previous = latest.get(key);
+    if (previous && previous.outcome !== 'cached' && sample.outcome === 'cached') continue;
+    latest.set(key, sample);
+  }
+
+  const samplesByTile = new Map<string, TileMetrics[]>();
+  for (const sample of latest.values()) {
+    if (sample.z !== zoom) continue;
+    let tileSamples = samplesByTile.get(sample.tileId);
+    if (!tileSamples) {
+      tileSamples = [];
+      samplesByTile.set(sample.tileId, tileSamples);
+    }
+    tileSamples.push(sample);
+  }
+
+  return [...samplesByTile.values()].flatMap(tileSamples =>
+    tileSamples.map((sample, i) => {
+      const [z, x, y] = sample.tileId.split('/').map(Number);
+      const [west, south, east, north] = getTileBounds(z, x, y);
+      const details = [
+        `${sample.totalTime.toFixed(0)}ms`,
+        `${(sample.tileSize / 1024).toFixed(1)}KB`,
+        ...(sample.features >= 0 ? [`${sample.features} features`] : [])
+      ];
+
+      return {
+        type: 'Feature',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]]
+        },
+        properties: {
+          totalTime: sample.totalTime,
+          label: `${sample.tileId} ${sample.source}${sample.outcome !== 'generated' ? ` (${sample.outcome})` : ''}\n${details.join(' · ')}`,
+          labelOffset: [0, (i - (tileSamples.length - 1) / 2) * LABEL_SPACING]
+        }
+      };
+    })
+  );
+}
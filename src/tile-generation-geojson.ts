@@ -3,7 +3,8 @@
  *
  * This approach:
  * 1. Fetches GeoJSON data from DuckDB using ST_AsGeoJSON
- * 2. Converts GeoJSON to MVT on the client-side using geojson-vt and vt-pbf
+ * 2. Converts GeoJSON to MVT on the client-side using geojson-vt and vt-pbf,
+ *    in a conversion worker (see conversion-worker-pool.ts)
  *
  * Pros:
  * - Works with older DuckDB versions
@@ -17,9 +18,19 @@
  */
 
 import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
-import type { Feature, Geometry, GeoJsonProperties } from 'geojson';
-import geojsonvt from 'geojson-vt';
-import vtpbf from 'vt-pbf';
+import { runCancellableQueryTable, isAbortError } from './cancellable-query';
+import { DEFAULT_CRS, transformSql } from './crs';
+import { resolvePropertyColumns, propertyValueSql } from './property-encoding';
+import type { PropertyColumn } from './property-encoding';
+import { isClusterZoom, generateClusterQuery, getClusterPropertyColumns } from './clustering';
+import type { ClusterOptions } from './clustering';
+import { generateGridQuery, getGridPropertyColumns, gridGeometrySql } from './grid-aggregation';
+import type { GridAggregationOptions } from './grid-aggregation';
+import type { TileGenerator } from './tile-generators';
+import { FEATURE_ID_FIELD } from './geojson-conversion';
+import type { ConversionLayer } from './geojson-conversion';
+import { convertInWorker } from './conversion-worker-pool';
+import { tableToIPC } from 'apache-arrow';
 
 export interface TileCoordinates {
   z: number;
@@ -32,6 +43,13 @@ export interface LayerConfig {
   geometryColumn: string;
   propertyColumns: string[];
   schema?: string;
+  layerName?: string;  // MVT source-layer name (defaults to 'v')
+  sourceCrs?: string;  // CRS of the geometry column (defaults to EPSG:4326)
+  mercatorGeometryColumn?: string;  // Pre-projected EPSG:3857 column (only used by the native generator)
+  filter?: string;  // SQL expression added to the WHERE clause
+  idColumn?: string;  // Integer column used as the MVT feature id
+  cluster?: ClusterOptions;  // Cluster points at low zooms
+  grid?: GridAggregationOptions;  // Aggregate into bins instead of encoding features
 }
 
 /**
@@ -40,12 +58,14 @@ export interface LayerConfig {
  * @param conn - Active DuckDB connection with spatial extension loaded
  * @param config - Layer configuration
  * @param zxy - Tile coordinates (z, x, y)
+ * @param signal - Cancels the running query when aborted (rejects with an AbortError)
  * @returns MVT binary data and performance metrics
  */
 export async function generateMVTFromGeoJSON(
   conn: AsyncDuckDBConnection,
   config: LayerConfig,
-  zxy: TileCoordinates
+  zxy: TileCoordinates,
+  signal?: AbortSignal
 ): Promise<{
   data: Uint8Array;
   metrics: {
@@ -56,10 +76,22 @@ export async function generateMVTFromGeoJSON(
     totalTime: number;
     featureCount: number;
     tileSize: number;
+    workerQueueTime?: number;
+    workerTime?: number;
   };
 }> {
   const startTime = performance.now();
-  const metrics = {
+  const metrics: {
+    connectionTime: number;
+    queryTime: number;
+    parseTime: number;
+    convertTime: number;
+    totalTime: number;
+    featureCount: number;
+    tileSize: number;
+    workerQueueTime?: number;
+    workerTime?: number;
+  } = {
     connectionTime: 0,
     queryTime: 0,
     parseTime: 0,
@@ -71,74 +103,40 @@ export async function generateMVTFromGeoJSON(
 
   try {
     // Step 1: Generate and execute SQL query
-    const { query, params } = generateTileQuery(config, zxy);
-
-    // Replace placeholders with actual values
-    let finalQuery = query;
-    for (const param of params) {
-      finalQuery = finalQuery.replace('?', param.toString());
-    }
+    const { query: finalQuery, properties } = await buildGeoJSONQuery(config, zxy);
 
+    // Serializing the rows for transfer to the worker counts as fetching them
     const queryStartTime = performance.now();
-    const results = (await conn.query(finalQuery)).toArray();
+    const table = await runCancellableQueryTable(conn, finalQuery, signal);
     metrics.queryTime = performance.now() - queryStartTime;
 
-    if (!results || results.length === 0) {
-      return {
-        data: new Uint8Array(),
-        metrics: { ...metrics, totalTime: performance.now() - startTime }
-      };
-    }
-
-    // Step 2: Parse results to GeoJSON features
-    const parseStartTime = performance.now();
-    const features: Feature<Geometry, GeoJsonProperties>[] = [];
-
-    for (const row of results) {
-      const geojson = parseGeoJSON(row.geojson);
-      if (!geojson) continue;
-
-      // Build properties from other columns
-      const properties: GeoJsonProperties = {};
-      for (const col of config.propertyColumns) {
-        if (col in row && row[col] !== null) {
-          try {
-            // Try to parse as JSON if it's a string that looks like JSON
-            const value = row[col];
-            if (typeof value === 'string' && (value.startsWith('{') || value.startsWith('['))) {
-              properties[col] = JSON.parse(value);
-            } else {
-              properties[col] = value;
-            }
-          } catch {
-            properties[col] = row[col];
-          }
-        }
-      }
-
-      features.push({
-        type: 'Feature',
-        geometry: geojson,
-        properties
-      });
+    if (table.numRows === 0) {
+      metrics.totalTime = performance.now() - startTime;
+      return { data: new Uint8Array(), metrics };
     }
-    metrics.parseTime = performance.now() - parseStartTime;
-    metrics.featureCount = features.length;
 
-    // Step 3: Convert GeoJSON to MVT
-    const convertStartTime = performance.now();
-    const mvtData = geojsonToVectorTile(features, zxy.z, zxy.x, zxy.y);
-    metrics.convertTime = performance.now() - convertStartTime;
+    // Steps 2 and 3: Parse the rows and convert GeoJSON to MVT in a conversion worker
+    const layer: ConversionLayer = { name: config.layerName ?? 'v', propertyColumns: properties, rows: tableToIPC(table, 'stream') };
+    const result = await convertInWorker({ zxy, layers: [layer] }, signal);
+    metrics.parseTime = result.parseTime;
+    metrics.convertTime = result.convertTime;
+    metrics.featureCount = result.featureCount;
+    metrics.workerQueueTime = result.workerQueueTime;
+    metrics.workerTime = result.workerTime;
 
-    metrics.tileSize = mvtData.length;
+    metrics.tileSize = result.data.length;
     metrics.totalTime = performance.now() - startTime;
 
     return {
-      data: mvtData,
+      data: result.data,
       metrics
     };
 
   } catch (error) {
+    // Cancellation is not a failure; let the caller record it
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error(`Error generating MVT from GeoJSON: ${error}`);
     return {
       data: new Uint8Array(),
@@ -147,10 +145,70 @@ export async function generateMVTFromGeoJSON(
   }
 }
 
+/**
+ * GeoJSON + geojson-vt generator for the tile generator registry
+ */
+export const geojsonTileGenerator: TileGenerator = {
+  name: 'geojson',
+  label: 'GeoJSON',
+  title: 'GeoJSON + geojson-vt',
+  description: 'Fetch GeoJSON, convert client-side',
+  capabilities: { preparedGeometry: false, featureCount: true },
+  async buildQuery(config, zxy) {
+    return (await buildGeoJSONQuery(config, zxy)).query;
+  },
+  async generate(conn, config, zxy, signal) {
+    const { data, metrics } = await generateMVTFromGeoJSON(conn, config, zxy, signal);
+    return {
+      data,
+      metrics: {
+        queryTime: metrics.queryTime,
+        parseTime: metrics.parseTime,
+        convertTime: metrics.convertTime,
+        totalTime: metrics.totalTime,
+        featureCount: metrics.featureCount,
+        tileSize: metrics.tileSize,
+        workerQueueTime: metrics.workerQueueTime,
+        workerTime: metrics.workerTime
+      }
+    };
+  }
+};
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Build the GeoJSON query for a tile (aggregated bins, clusters or features)
+ * with its parameters filled in, and the property columns it selects
+ */
+async function buildGeoJSONQuery(
+  config: LayerConfig,
+  zxy: TileCoordinates
+): Promise<{ query: string; properties: PropertyColumn[] }> {
+  let properties: PropertyColumn[];
+  let query: string;
+  let params: number[] = [];
+  if (config.grid) {
+    properties = getGridPropertyColumns(config.grid);
+    query = generateGeoJSONGridQuery(config, zxy);
+  } else if (isClusterZoom(config, zxy.z)) {
+    properties = getClusterPropertyColumns(config.cluster!);
+    query = generateGeoJSONClusterQuery(config, zxy);
+  } else {
+    properties = await resolvePropertyColumns(config, config.propertyColumns);
+    ({ query, params } = generateTileQuery(config, properties, zxy));
+  }
+
+  // Replace placeholders with actual values
+  for (const param of params) {
+    query = query.replace('?', param.toString());
+  }
+
+  return { query, properties };
+}
+
 /**
  * Convert tile coordinates to WGS84 bounds
  */
@@ -183,79 +241,47 @@ function calculateSimplifyTolerance(z: number): number {
   return 0.00001;
 }
 
-/**
- * Parse GeoJSON string to Geometry object
- */
-function parseGeoJSON(geojsonStr: string): Geometry | null {
-  try {
-    return JSON.parse(geojsonStr) as Geometry;
-  } catch (error) {
-    console.error('Failed to parse GeoJSON:', error);
-    return null;
-  }
-}
-
-/**
- * Convert GeoJSON features to MVT using geojson-vt
- */
-function geojsonToVectorTile(
-  features: Feature<Geometry, GeoJsonProperties>[],
-  z: number,
-  x: number,
-  y: number
-): Uint8Array {
-  if (features.length === 0) {
-    return new Uint8Array();
-  }
-
-  // Create a GeoJSON FeatureCollection
-  const featureCollection = {
-    type: 'FeatureCollection' as const,
-    features: features
-  };
-
-  // Create vector tile index
-  const tileIndex = geojsonvt(featureCollection, {
-    maxZoom: z,
-    indexMaxZoom: z,
-    indexMaxPoints: 0,
-    tolerance: 0,
-    extent: 4096,
-    buffer: 0,
-    generateId: true
-  });
-
-  // Get the specific tile
-  const tile = tileIndex.getTile(z, x, y);
-
-  if (!tile) {
-    return new Uint8Array();
-  }
-
-  // Convert to MVT format
-  const buff = vtpbf.fromGeojsonVt({ 'v': tile });
-  return new Uint8Array(buff);
-}
-
 /**
  * Generate SQL query for fetching GeoJSON data
  */
 function generateTileQuery(
   config: LayerConfig,
+  properties: PropertyColumn[],
   zxy: TileCoordinates
 ): { query: string; params: number[] } {
-  const { tableName, geometryColumn, propertyColumns, schema } = config;
+  const { tableName, geometryColumn, schema } = config;
   const bounds = getTileEnvelope(zxy.z, zxy.x, zxy.y);
   const simplify = calculateSimplifyTolerance(zxy.z);
 
   const fullTableName = schema ? `"${schema}"."${tableName}"` : `"${tableName}"`;
-
-  // Build column selection with JSON conversion for complex types
-  const columnSelection = propertyColumns.length > 0
-    ? ', ' + propertyColumns.map(col =>
-        `to_json("${col}")::VARCHAR as "${col}"`
+  const sourceCrs = config.sourceCrs ?? DEFAULT_CRS;
+
+  // Filter in the source CRS so a spatial index on the column can be used,
+  // then convert to WGS84 since GeoJSON and geojson-vt expect lon/lat
+  const envelope = transformSql(
+    'ST_MakeEnvelope(CAST(? AS DOUBLE), CAST(? AS DOUBLE), CAST(? AS DOUBLE), CAST(? AS DOUBLE))',
+    DEFAULT_CRS,
+    sourceCrs
+  );
+  const wgs84Geometry = transformSql(`"${geometryColumn}"`, sourceCrs, DEFAULT_CRS);
+
+  // Placed after the envelope so that its placeholders are substituted first
+  const filter = config.filter ? `
+          AND (${config.filter})` : '';
+
+  // Build column selection, encoding each property by its type
+  const columnSelection = properties.length > 0
+    ? ', ' + properties.map(col =>
+        `${propertyValueSql(col)} as "${col.name}"`
       ).join(', ')
     : '';
+  const filteredColumns = [
+    ...properties.map(col => `, "${col.name}"`),
+    ...(config.idColumn ? [`, "${config.idColumn}" AS ${FEATURE_ID_FIELD}`] : [])
+  ].join('');
+  const idSelection = config.idColumn
+    ? `, CAST(${FEATURE_ID_FIELD} AS BIGINT) AS ${FEATURE_ID_FIELD}`
+    : '';
 
   // Build the query
   let query: string;
@@ -265,19 +291,19 @@ function generateTileQuery(
     query = `
       WITH filtered AS (
         SELECT
-          "${geometryColumn}" as geom
-          ${propertyColumns.length > 0 ? ', ' + propertyColumns.map(col => `"${col}"`).join(', ') : ''}
+          ${wgs84Geometry} as geom
+          ${filteredColumns}
         FROM ${fullTableName}
         WHERE ST_Intersects(
           "${geometryColumn}",
-          ST_MakeEnvelope(CAST(? AS DOUBLE), CAST(? AS DOUBLE), CAST(? AS DOUBLE), CAST(? AS DOUBLE))
-        )
+          ${envelope}
+        )${filter}
       )
       SELECT
         ST_AsGeoJSON(
           ST_SimplifyPreserveTopology(geom, ${simplify})
         ) AS geojson
-        ${columnSelection}
+        ${columnSelection}${idSelection}
       FROM filtered
     `;
   } else {
@@ -285,17 +311,17 @@ function generateTileQuery(
     query = `
       WITH filtered AS (
         SELECT
-          "${geometryColumn}" as geom
-          ${propertyColumns.length > 0 ? ', ' + propertyColumns.map(col => `"${col}"`).join(', ') : ''}
+          ${wgs84Geometry} as geom
+          ${filteredColumns}
         FROM ${fullTableName}
         WHERE ST_Intersects(
           "${geometryColumn}",
-          ST_MakeEnvelope(CAST(? AS DOUBLE), CAST(? AS DOUBLE), CAST(? AS DOUBLE), CAST(? AS DOUBLE))
-        )
+          ${envelope}
+        )${filter}
       )
       SELECT
         ST_AsGeoJSON(geom) AS geojson
-        ${columnSelection}
+        ${columnSelection}${idSelection}
       FROM filtered
     `;
   }
@@ -305,6 +331,46 @@ function generateTileQuery(
   return { query, params };
 }
 
+/**
+ * Generate a query returning one GeoJSON point per cluster
+ */
+function generateGeoJSONClusterQuery(
+  config: LayerConfig,
+  zxy: TileCoordinates
+): string {
+  const columnSelection = getClusterPropertyColumns(config.cluster!)
+    .map(col => `, ${propertyValueSql(col)} as "${col.name}"`)
+    .join('');
+
+  return `
+    WITH clusters AS (${generateClusterQuery(config, zxy)})
+    SELECT
+      ST_AsGeoJSON(${transformSql('ST_Point(x, y)', 'EPSG:3857', DEFAULT_CRS)}) AS geojson
+      ${columnSelection}
+    FROM clusters
+  `;
+}
+
+/**
+ * Generate a query returning one GeoJSON polygon or point per bin
+ */
+function generateGeoJSONGridQuery(
+  config: LayerConfig,
+  zxy: TileCoordinates
+): string {
+  const columnSelection = getGridPropertyColumns(config.grid!)
+    .map(col => `, ${propertyValueSql(col)} as "${col.name}"`)
+    .join('');
+
+  return `
+    WITH bins AS (${generateGridQuery(config, zxy)})
+    SELECT
+      ST_AsGeoJSON(${transformSql(gridGeometrySql(config.grid!), 'EPSG:3857', DEFAULT_CRS)}) AS geojson
+      ${columnSelection}
+    FROM bins
+  `;
+}
+
 /**
  * Example usage:
  *
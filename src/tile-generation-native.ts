@@ -12,11 +12,23 @@
  *
  * Cons:
  * - Requires newer DuckDB version
- * - Less flexibility for debugging
+ * - Tile contents only visible by decoding (see tile-inspector.ts)
  * - Feature count not easily accessible
  */
 
 import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import { runCancellableQuery, isAbortError } from './cancellable-query';
+import { DEFAULT_CRS, METERS_PER_DEGREE, isWGS84, transformSql } from './crs';
+import { resolvePropertyColumns, propertyValueSql } from './property-encoding';
+import type { PropertyColumn } from './property-encoding';
+import { isClusterZoom, generateClusterQuery, getClusterPropertyColumns } from './clustering';
+import type { ClusterOptions } from './clustering';
+import { generateGridQuery, getGridPropertyColumns, gridGeometrySql } from './grid-aggregation';
+import type { GridAggregationOptions } from './grid-aggregation';
+import type { TileGenerator } from './tile-generators';
+
+// STRUCT field holding the feature id, which ST_AsMVT doesn't encode as a property
+const FEATURE_ID_FIELD = '__feature_id';
 
 export interface TileCoordinates {
   z: number;
@@ -29,29 +41,71 @@ export interface LayerConfig {
   geometryColumn: string;
   propertyColumns: string[];
   schema?: string;
+  layerName?: string;  // MVT source-layer name (defaults to 'v')
+  sourceCrs?: string;  // CRS of the geometry column (defaults to EPSG:4326)
+  mercatorGeometryColumn?: string;  // Pre-projected EPSG:3857 copy of the geometry column
+  filter?: string;  // SQL expression added to the WHERE clause
+  idColumn?: string;  // Integer column used as the MVT feature id
+  cluster?: ClusterOptions;  // Cluster points at low zooms
+  grid?: GridAggregationOptions;  // Aggregate into bins instead of encoding features
+}
+
+export interface NativeTileResult {
+  data: Uint8Array;
+  metrics: {
+    connectionTime: number;
+    queryTime: number;
+    totalTime: number;
+    tileSize: number;
+  };
 }
 
 /**
  * Main function: Generate MVT using native ST_AsMVT
  *
+ * A failed query is logged and yields an empty tile, so one bad tile does
+ * not break the map.
+ *
  * @param conn - Active DuckDB connection with spatial extension loaded
  * @param config - Layer configuration
  * @param zxy - Tile coordinates (z, x, y)
+ * @param signal - Cancels the running query when aborted (rejects with an AbortError)
  * @returns MVT binary data and performance metrics
  */
 export async function generateMVTNative(
   conn: AsyncDuckDBConnection,
   config: LayerConfig,
-  zxy: TileCoordinates
-): Promise<{
-  data: Uint8Array;
-  metrics: {
-    connectionTime: number;
-    queryTime: number;
-    totalTime: number;
-    tileSize: number;
-  };
-}> {
+  zxy: TileCoordinates,
+  signal?: AbortSignal
+): Promise<NativeTileResult> {
+  const startTime = performance.now();
+
+  try {
+    return await generateMVTNativeOrThrow(conn, config, zxy, signal);
+  } catch (error) {
+    // Cancellation is not a failure; let the caller record it
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error(`Error generating native MVT: ${error}`);
+    return {
+      data: new Uint8Array(),
+      metrics: { connectionTime: 0, queryTime: 0, totalTime: performance.now() - startTime, tileSize: 0 }
+    };
+  }
+}
+
+/**
+ * Generate MVT using native ST_AsMVT, rejecting if the query fails
+ *
+ * For exports, where a failed tile must not pass for an empty one.
+ */
+export async function generateMVTNativeOrThrow(
+  conn: AsyncDuckDBConnection,
+  config: LayerConfig,
+  zxy: TileCoordinates,
+  signal?: AbortSignal
+): Promise<NativeTileResult> {
   const startTime = performance.now();
   const metrics = {
     connectionTime: 0,
@@ -60,45 +114,76 @@ export async function generateMVTNative(
     tileSize: 0
   };
 
-  try {
-    // Step 1: Generate and execute native MVT query
-    const query = generateNativeMVTQuery(config, zxy);
-
-    const queryStartTime = performance.now();
-    const results = (await conn.query(query)).toArray();
-    metrics.queryTime = performance.now() - queryStartTime;
-
-    if (!results || results.length === 0 || !results[0].mvt) {
-      return {
-        data: new Uint8Array(),
-        metrics: { ...metrics, totalTime: performance.now() - startTime }
-      };
-    }
-
-    // Step 2: MVT data is already Uint8Array from DuckDB-WASM
-    const mvtData = results[0].mvt as Uint8Array;
+  // Step 1: Generate and execute native MVT query
+  const query = await buildNativeQuery(config, zxy);
 
-    metrics.tileSize = mvtData.length;
-    metrics.totalTime = performance.now() - startTime;
+  const queryStartTime = performance.now();
+  const results = await runCancellableQuery(conn, query, signal);
+  metrics.queryTime = performance.now() - queryStartTime;
 
-    return {
-      data: mvtData,
-      metrics
-    };
-
-  } catch (error) {
-    console.error(`Error generating native MVT: ${error}`);
+  if (!results || results.length === 0 || !results[0].mvt) {
     return {
       data: new Uint8Array(),
       metrics: { ...metrics, totalTime: performance.now() - startTime }
     };
   }
+
+  // Step 2: MVT data is already Uint8Array from DuckDB-WASM
+  const mvtData = results[0].mvt as Uint8Array;
+
+  metrics.tileSize = mvtData.length;
+  metrics.totalTime = performance.now() - startTime;
+
+  return {
+    data: mvtData,
+    metrics
+  };
 }
 
+/**
+ * Native ST_AsMVT generator for the tile generator registry
+ */
+export const nativeTileGenerator: TileGenerator = {
+  name: 'native',
+  label: 'Native',
+  title: 'Native ST_AsMVT',
+  description: 'Generate MVT directly in DuckDB',
+  capabilities: { preparedGeometry: true, featureCount: false },
+  buildQuery: buildNativeQuery,
+  async generate(conn, config, zxy, signal) {
+    const { data, metrics } = await generateMVTNative(conn, config, zxy, signal);
+    return {
+      data,
+      metrics: {
+        queryTime: metrics.queryTime,
+        parseTime: 0,
+        convertTime: 0,
+        totalTime: metrics.totalTime,
+        featureCount: -1,
+        tileSize: metrics.tileSize
+      }
+    };
+  }
+};
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Build the ST_AsMVT query for a tile: aggregated bins, clusters or features
+ */
+async function buildNativeQuery(config: LayerConfig, zxy: TileCoordinates): Promise<string> {
+  if (config.grid) {
+    return generateNativeGridQuery(config, zxy);
+  }
+  if (isClusterZoom(config, zxy.z)) {
+    return generateNativeClusterQuery(config, zxy);
+  }
+  const properties = await resolvePropertyColumns(config, config.propertyColumns);
+  return generateNativeMVTQuery(config, properties, zxy);
+}
+
 /**
  * Calculate simplification tolerance based on zoom level
  */
@@ -114,36 +199,48 @@ function calculateSimplifyTolerance(z: number): number {
  *
  * Key points:
  * 1. ST_Transform with always_xy=true (4th parameter) to force lon,lat order
+ *    (skipped for data already in EPSG:3857 or with a pre-projected column,
+ *    which also lets ST_Intersects use that column's RTREE index)
  * 2. ST_Extent wraps ST_TileEnvelope to create BOX_2D type
- * 3. TRY_CAST for safe property conversion to VARCHAR
+ * 3. Properties cast by column type (see property-encoding.ts), so numbers
+ *    and booleans become native MVT values
  * 4. Two-step process: prepare features, then generate MVT
  */
 function generateNativeMVTQuery(
   config: LayerConfig,
+  properties: PropertyColumn[],
   zxy: TileCoordinates
 ): string {
-  const { tableName, geometryColumn, propertyColumns, schema } = config;
+  const { tableName, geometryColumn, schema } = config;
+  // Escape single quotes since the layer name is embedded as a SQL string literal
+  const layerName = (config.layerName ?? 'v').replace(/'/g, "''");
   const { z, x, y } = zxy;
 
   const fullTableName = schema ? `"${schema}"."${tableName}"` : `"${tableName}"`;
+  const sourceCrs = config.sourceCrs ?? DEFAULT_CRS;
+
+  // Simplify in degrees for WGS84 sources, otherwise in meters after projecting
+  const tolerance = calculateSimplifyTolerance(z);
+  const projectedGeometry = config.mercatorGeometryColumn
+    ? `"${config.mercatorGeometryColumn}"`
+    : transformSql(`"${geometryColumn}"`, sourceCrs, 'EPSG:3857');
+  const mercatorGeometry = isWGS84(sourceCrs) && !config.mercatorGeometryColumn
+    ? transformSql(`ST_SimplifyPreserveTopology("${geometryColumn}", ${tolerance})`, sourceCrs, 'EPSG:3857')
+    : `ST_SimplifyPreserveTopology(${projectedGeometry}, ${tolerance * METERS_PER_DEGREE})`;
 
-  // Build property selection with TRY_CAST for safety
-  const propertySelection = propertyColumns.length > 0
-    ? propertyColumns.map(col => `'${col}': TRY_CAST("${col}" AS VARCHAR)`).join(',\n          ')
-    : '';
+  // Build property selection, keeping numbers and booleans typed
+  const propertyFields = properties.map(col => `'${col.name}': ${propertyValueSql(col)}`);
+  if (config.idColumn) {
+    propertyFields.push(`'${FEATURE_ID_FIELD}': CAST("${config.idColumn}" AS BIGINT)`);
+  }
+  const propertySelection = propertyFields.join(',\n          ');
 
   const query = `
     WITH tile_data AS (
         SELECT {
             'geometry': ST_AsMVTGeom(
-                -- Transform geometry to Web Mercator (EPSG:3857)
-                -- CRITICAL: always_xy=true ensures lon,lat order
-                ST_Transform(
-                    ST_SimplifyPreserveTopology("${geometryColumn}", ${calculateSimplifyTolerance(z)}),
-                    'EPSG:4326',
-                    'EPSG:3857',
-                    true  -- Force lon,lat order (always_xy)
-                ),
+                -- Geometry in Web Mercator (EPSG:3857)
+                ${mercatorGeometry},
                 -- Create tile boundary as BOX_2D
                 ST_Extent(ST_TileEnvelope(${z}, ${x}, ${y})),
                 4096,  -- Tile resolution
@@ -154,17 +251,19 @@ function generateNativeMVTQuery(
         FROM ${fullTableName}
         WHERE "${geometryColumn}" IS NOT NULL
             AND ST_Intersects(
-                -- Transform to Web Mercator for intersection test
-                ST_Transform("${geometryColumn}", 'EPSG:4326', 'EPSG:3857', true),
+                -- Web Mercator for intersection test
+                ${projectedGeometry},
                 ST_TileEnvelope(${z}, ${x}, ${y})
-            )
+            )${config.filter ? `
+            AND (${config.filter})` : ''}
         LIMIT 10000  -- Prevent excessive features per tile
     )
     SELECT ST_AsMVT(
         feature,       -- Feature STRUCT
-        'v',          -- Layer name in MVT
+        '${layerName}',  -- Layer name in MVT
         4096,         -- Extent (must match ST_AsMVTGeom)
         'geometry'    -- Geometry column name in STRUCT
+        ${config.idColumn ? `, '${FEATURE_ID_FIELD}'  -- Feature id field in STRUCT` : ''}
     ) AS mvt
     FROM tile_data
     WHERE feature.geometry IS NOT NULL  -- Exclude failed transformations
@@ -174,6 +273,76 @@ function generateNativeMVTQuery(
 }
 
 
+/**
+ * Generate a native ST_AsMVT query encoding one point per cluster
+ */
+function generateNativeClusterQuery(
+  config: LayerConfig,
+  zxy: TileCoordinates
+): string {
+  const layerName = (config.layerName ?? 'v').replace(/'/g, "''");
+  const { z, x, y } = zxy;
+
+  const propertySelection = getClusterPropertyColumns(config.cluster!)
+    .map(col => `'${col.name}': ${propertyValueSql(col)}`)
+    .join(',\n            ');
+
+  return `
+    WITH clusters AS (${generateClusterQuery(config, zxy)})
+    SELECT ST_AsMVT(
+        {
+            'geometry': ST_AsMVTGeom(
+                ST_Point(x, y),
+                ST_Extent(ST_TileEnvelope(${z}, ${x}, ${y})),
+                4096,
+                256,
+                false
+            ),
+            ${propertySelection}
+        },
+        '${layerName}',
+        4096,
+        'geometry'
+    ) AS mvt
+    FROM clusters
+  `;
+}
+
+/**
+ * Generate a native ST_AsMVT query encoding one polygon or point per bin
+ */
+function generateNativeGridQuery(
+  config: LayerConfig,
+  zxy: TileCoordinates
+): string {
+  const layerName = (config.layerName ?? 'v').replace(/'/g, "''");
+  const { z, x, y } = zxy;
+
+  const propertySelection = getGridPropertyColumns(config.grid!)
+    .map(col => `'${col.name}': ${propertyValueSql(col)}`)
+    .join(',\n            ');
+
+  return `
+    WITH bins AS (${generateGridQuery(config, zxy)})
+    SELECT ST_AsMVT(
+        {
+            'geometry': ST_AsMVTGeom(
+                ${gridGeometrySql(config.grid!)},
+                ST_Extent(ST_TileEnvelope(${z}, ${x}, ${y})),
+                4096,
+                256,
+                false
+            ),
+            ${propertySelection}
+        },
+        '${layerName}',
+        4096,
+        'geometry'
+    ) AS mvt
+    FROM bins
+  `;
+}
+
 /**
  * Example usage:
  *
@@ -209,5 +378,5 @@ function generateNativeMVTQuery(
  *    Check: ST_TileEnvelope bounds, coordinate system, NULL geometries
  *
  * 4. Properties missing
- *    Solution: Use TRY_CAST to handle type conversion errors
+ *    Check: the console for columns dropped because of unsupported types
  */
@@ -0,0 +1,312 @@
+/**
+ * Binary WKB Approach for MVT Generation
+ *
+ * This approach:
+ * 1. Fetches the tile-clipped Web Mercator geometry as WKB (an Arrow binary
+ *    column) using ST_AsWKB
+ * 2. Decodes the WKB straight into quantized tile coordinates
+ * 3. Encodes the MVT protobuf directly, without geojson-vt or vt-pbf
+ *
+ * Pros:
+ * - No JSON: no ST_AsGeoJSON, string transfer or JSON.parse per row
+ * - Full client-side control over features, like the GeoJSON approach
+ * - Uses the pre-projected EPSG:3857 column when there is one
+ *
+ * Cons:
+ * - Clipping in DuckDB costs a GEOS intersection per boundary-crossing geometry
+ * - More client code than the native approach
+ */
+
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import { runCancellableQuery, isAbortError } from './cancellable-query';
+import { DEFAULT_CRS, METERS_PER_DEGREE, getMercatorTileBounds, isWGS84, transformSql } from './crs';
+import { resolvePropertyColumns, propertyValueSql, toPropertyValue } from './property-encoding';
+import type { PropertyColumn } from './property-encoding';
+import { isClusterZoom, generateClusterQuery, getClusterPropertyColumns } from './clustering';
+import { generateGridQuery, getGridPropertyColumns, gridGeometrySql } from './grid-aggregation';
+import { decodeWkb, isEmptyTileGeometry } from './wkb';
+import type { TileTransform } from './wkb';
+import { encodeMVTLayer } from './mvt-encoder';
+import type { MVTFeature, MVTPropertyValue } from './mvt-encoder';
+import type { TileCoordinates, LayerConfig } from './tile-generation-native';
+import type { TileGenerator } from './tile-generators';
+
+// Result column holding the feature id
+const FEATURE_ID_FIELD = '__feature_id';
+
+const EXTENT = 4096;
+// Buffer around the tile, in tile units (as in ST_AsMVTGeom)
+const BUFFER = 256;
+
+/**
+ * Main function: Generate MVT from DuckDB using the WKB approach
+ *
+ * @param conn - Active DuckDB connection with spatial extension loaded
+ * @param config - Layer configuration
+ * @param zxy - Tile coordinates (z, x, y)
+ * @param signal - Cancels the running query when aborted (rejects with an AbortError)
+ * @returns MVT binary data and performance metrics
+ */
+export async function generateMVTFromWKB(
+  conn: AsyncDuckDBConnection,
+  config: LayerConfig,
+  zxy: TileCoordinates,
+  signal?: AbortSignal
+): Promise<{
+  data: Uint8Array;
+  metrics: {
+    queryTime: number;
+    parseTime: number;
+    convertTime: number;
+    totalTime: number;
+    featureCount: number;
+    tileSize: number;
+  };
+}> {
+  const startTime = performance.now();
+  const metrics = {
+    queryTime: 0,
+    parseTime: 0,
+    convertTime: 0,
+    totalTime: 0,
+    featureCount: 0,
+    tileSize: 0
+  };
+
+  try {
+    // Step 1: Generate and execute SQL query
+    const { query, properties } = await buildWKBQuery(config, zxy);
+
+    const queryStartTime = performance.now();
+    const rows = await runCancellableQuery(conn, query, signal);
+    metrics.queryTime = performance.now() - queryStartTime;
+
+    // Step 2: Decode WKB into tile coordinates
+    const parseStartTime = performance.now();
+    const features = rowsToFeatures(rows, properties, getTileTransform(zxy));
+    metrics.parseTime = performance.now() - parseStartTime;
+    metrics.featureCount = features.length;
+
+    // Step 3: Encode the MVT layer
+    const convertStartTime = performance.now();
+    const mvtData = encodeMVTLayer(config.layerName ?? 'v', features, EXTENT);
+    metrics.convertTime = performance.now() - convertStartTime;
+
+    metrics.tileSize = mvtData.length;
+    metrics.totalTime = performance.now() - startTime;
+
+    return {
+      data: mvtData,
+      metrics
+    };
+
+  } catch (error) {
+    // Cancellation is not a failure; let the caller record it
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error(`Error generating MVT from WKB: ${error}`);
+    return {
+      data: new Uint8Array(),
+      metrics: { ...metrics, totalTime: performance.now() - startTime }
+    };
+  }
+}
+
+/**
+ * WKB generator for the tile generator registry
+ */
+export const wkbTileGenerator: TileGenerator = {
+  name: 'wkb',
+  label: 'WKB',
+  title: 'Binary WKB + direct MVT encoding',
+  description: 'Fetch clipped WKB, encode client-side without JSON',
+  capabilities: { preparedGeometry: true, featureCount: true },
+  async buildQuery(config, zxy) {
+    return (await buildWKBQuery(config, zxy)).query;
+  },
+  generate: generateMVTFromWKB
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Calculate simplification tolerance based on zoom level
+ */
+function calculateSimplifyTolerance(z: number): number {
+  if (z <= 5) return 0.01;
+  if (z <= 10) return 0.001;
+  if (z <= 15) return 0.0001;
+  return 0.00001;
+}
+
+/**
+ * Build the WKB query for a tile (aggregated bins, clusters or features)
+ * and the property columns it selects
+ */
+async function buildWKBQuery(
+  config: LayerConfig,
+  zxy: TileCoordinates
+): Promise<{ query: string; properties: PropertyColumn[] }> {
+  if (config.grid) {
+    const properties = getGridPropertyColumns(config.grid);
+    return { query: generateWKBGridQuery(config, properties, zxy), properties };
+  }
+  if (isClusterZoom(config, zxy.z)) {
+    const properties = getClusterPropertyColumns(config.cluster!);
+    return { query: generateWKBClusterQuery(config, properties, zxy), properties };
+  }
+  const properties = await resolvePropertyColumns(config, config.propertyColumns);
+  return { query: generateWKBQuery(config, properties, zxy), properties };
+}
+
+/**
+ * Mapping from EPSG:3857 meters to the tile's 0..4096 coordinates
+ */
+function getTileTransform(zxy: TileCoordinates): TileTransform {
+  const tile = getMercatorTileBounds(zxy.z, zxy.x, zxy.y);
+  return { originX: tile.minX, originY: tile.maxY, scale: EXTENT / tile.width };
+}
+
+/**
+ * Generate a query returning the clipped WKB geometry of each feature
+ *
+ * Geometries are simplified and projected as in the native method, then
+ * clipped to the tile plus buffer. Geometries whose bounds already lie
+ * inside are not clipped, which spares most of them a GEOS intersection.
+ */
+function generateWKBQuery(
+  config: LayerConfig,
+  properties: PropertyColumn[],
+  zxy: TileCoordinates
+): string {
+  const { tableName, geometryColumn, schema } = config;
+  const { z, x, y } = zxy;
+
+  const fullTableName = schema ? `"${schema}"."${tableName}"` : `"${tableName}"`;
+  const sourceCrs = config.sourceCrs ?? DEFAULT_CRS;
+
+  // Simplify in degrees for WGS84 sources, otherwise in meters after projecting
+  const tolerance = calculateSimplifyTolerance(z);
+  const projectedGeometry = config.mercatorGeometryColumn
+    ? `"${config.mercatorGeometryColumn}"`
+    : transformSql(`"${geometryColumn}"`, sourceCrs, 'EPSG:3857');
+  const mercatorGeometry = isWGS84(sourceCrs) && !config.mercatorGeometryColumn
+    ? transformSql(`ST_SimplifyPreserveTopology("${geometryColumn}", ${tolerance})`, sourceCrs, 'EPSG:3857')
+    : `ST_SimplifyPreserveTopology(${projectedGeometry}, ${tolerance * METERS_PER_DEGREE})`;
+
+  const tile = getMercatorTileBounds(z, x, y);
+  const buffer = (tile.width * BUFFER) / EXTENT;
+  const clip = {
+    minX: tile.minX - buffer,
+    minY: tile.minY - buffer,
+    maxX: tile.maxX + buffer,
+    maxY: tile.maxY + buffer
+  };
+
+  const propertySelection = properties
+    .map(col => `,\n        ${propertyValueSql(col)} AS "${col.name}"`)
+    .join('');
+  const idSelection = config.idColumn
+    ? `,\n        CAST("${config.idColumn}" AS BIGINT) AS ${FEATURE_ID_FIELD}`
+    : '';
+
+  return `
+    WITH tile_data AS (
+      SELECT
+        ${mercatorGeometry} AS geom${propertySelection}${idSelection}
+      FROM ${fullTableName}
+      WHERE "${geometryColumn}" IS NOT NULL
+        AND ST_Intersects(${projectedGeometry}, ST_TileEnvelope(${z}, ${x}, ${y}))${config.filter ? `
+        AND (${config.filter})` : ''}
+      LIMIT 10000  -- Prevent excessive features per tile
+    )
+    SELECT
+      ST_AsWKB(CASE
+        WHEN ST_XMin(geom) >= ${clip.minX} AND ST_YMin(geom) >= ${clip.minY}
+          AND ST_XMax(geom) <= ${clip.maxX} AND ST_YMax(geom) <= ${clip.maxY} THEN geom
+        ELSE ST_Intersection(geom, ST_MakeEnvelope(${clip.minX}, ${clip.minY}, ${clip.maxX}, ${clip.maxY}))
+      END) AS wkb,
+      * EXCLUDE (geom)
+    FROM tile_data
+    WHERE geom IS NOT NULL  -- Exclude failed transformations
+  `;
+}
+
+/**
+ * Generate a query returning one WKB point per cluster
+ */
+function generateWKBClusterQuery(
+  config: LayerConfig,
+  properties: PropertyColumn[],
+  zxy: TileCoordinates
+): string {
+  const propertySelection = properties
+    .map(col => `,\n      ${propertyValueSql(col)} AS "${col.name}"`)
+    .join('');
+
+  return `
+    WITH clusters AS (${generateClusterQuery(config, zxy)})
+    SELECT
+      ST_AsWKB(ST_Point(x, y)) AS wkb${propertySelection}
+    FROM clusters
+  `;
+}
+
+/**
+ * Generate a query returning one WKB polygon or point per bin
+ */
+function generateWKBGridQuery(
+  config: LayerConfig,
+  properties: PropertyColumn[],
+  zxy: TileCoordinates
+): string {
+  const propertySelection = properties
+    .map(col => `,\n      ${propertyValueSql(col)} AS "${col.name}"`)
+    .join('');
+
+  return `
+    WITH bins AS (${generateGridQuery(config, zxy)})
+    SELECT
+      ST_AsWKB(${gridGeometrySql(config.grid!)}) AS wkb${propertySelection}
+    FROM bins
+  `;
+}
+
+/**
+ * Decode query result rows into MVT features
+ */
+function rowsToFeatures(
+  rows: any[],
+  propertyColumns: PropertyColumn[],
+  transform: TileTransform
+): MVTFeature[] {
+  const features: MVTFeature[] = [];
+
+  for (const row of rows) {
+    if (!row.wkb) continue;
+    const geometry = decodeWkb(row.wkb as Uint8Array, transform);
+    if (isEmptyTileGeometry(geometry)) continue;
+
+    // Values are already encoded by type in SQL
+    const properties: Record<string, MVTPropertyValue> = {};
+    for (const { name } of propertyColumns) {
+      if (row[name] !== null && row[name] !== undefined) {
+        properties[name] = toPropertyValue(row[name]);
+      }
+    }
+
+    // MVT ids are unsigned, as in the native method
+    const id = row[FEATURE_ID_FIELD] != null ? Number(row[FEATURE_ID_FIELD]) : undefined;
+
+    features.push({
+      geometry,
+      properties,
+      ...(id !== undefined && id >= 0 ? { id } : {})
+    });
+  }
+
+  return features;
+}
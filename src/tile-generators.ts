@@ -0,0 +1,111 @@
+/**
+ * Tile generator registry
+ *
+ * A tile generator encodes one layer of a tile from DuckDB. The protocol
+ * handler looks generators up by name, so each layer can pick its own and
+ * experimental generators can be registered without touching the handler.
+ * All generators report the same metrics. The native, GeoJSON and WKB
+ * generators are built in.
+ */
+
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import { nativeTileGenerator } from './tile-generation-native';
+import { geojsonTileGenerator } from './tile-generation-geojson';
+import { wkbTileGenerator } from './tile-generation-wkb';
+import type { TileCoordinates, LayerConfig } from './tile-generation-native';
+
+export interface TileGeneratorCapabilities {
+  preparedGeometry: boolean;  // Reads the pre-projected EPSG:3857 column when there is one
+  featureCount: boolean;      // Reports the number of encoded features
+}
+
+export interface TileGeneratorMetrics {
+  queryTime: number;     // Running the query in DuckDB
+  parseTime: number;     // Reading query results on the client
+  convertTime: number;   // Encoding on the client
+  totalTime: number;
+  featureCount: number;  // -1 if the generator can't tell
+  tileSize: number;
+  workerQueueTime?: number;  // Waiting for a conversion worker, if one was used
+  workerTime?: number;       // Running in a conversion worker, incl. transfer
+}
+
+export interface TileGeneratorResult {
+  data: Uint8Array;  // Single-layer MVT named after config.layerName, empty if no features
+  metrics: TileGeneratorMetrics;
+}
+
+export interface TileGenerator {
+  name: string;         // Registry key, used in layer configs and cache keys
+  label: string;        // Short name shown in metrics, e.g. "Native"
+  title: string;        // Name shown in the method picker
+  description: string;
+  capabilities: TileGeneratorCapabilities;
+  /**
+   * The SQL query generate runs for a layer of a tile, shown by the tile
+   * inspector (omit if the generator doesn't run a single query)
+   */
+  buildQuery?(config: LayerConfig, zxy: TileCoordinates): Promise<string>;
+  /**
+   * Generate a layer of a tile
+   *
+   * Must reject with an AbortError when the signal is aborted.
+   */
+  generate(
+    conn: AsyncDuckDBConnection,
+    config: LayerConfig,
+    zxy: TileCoordinates,
+    signal?: AbortSignal
+  ): Promise<TileGeneratorResult>;
+}
+
+// Built-in generators come first, in the order they are offered in the UI
+const generators = new Map<string, TileGenerator>([
+  [nativeTileGenerator.name, nativeTileGenerator],
+  [geojsonTileGenerator.name, geojsonTileGenerator],
+  [wkbTileGenerator.name, wkbTileGenerator]
+]);
+
+/**
+ * Register a tile generator under its name
+ */
+export function registerTileGenerator(generator: TileGenerator): void {
+  if (generators.has(generator.name)) {
+    throw new Error(`Tile generator already registered: ${generator.name}`);
+  }
+  generators.set(generator.name, generator);
+}
+
+/**
+ * Unregister a tile generator
+ */
+export function unregisterTileGenerator(name: string): void {
+  generators.delete(name);
+}
+
+export function getTileGenerator(name: string): TileGenerator | undefined {
+  return generators.get(name);
+}
+
+/**
+ * All registered generators, in registration order
+ */
+export function getTileGenerators(): TileGenerator[] {
+  return Array.from(generators.values());
+}
+
+/**
+ * Concatenate single-layer tiles into one multi-layer tile
+ *
+ * An MVT tile is a protobuf message whose only top-level field is the
+ * repeated `layers` field, so concatenated tiles are a valid tile.
+ */
+export function concatenateTiles(tiles: Uint8Array[]): Uint8Array {
+  const data = new Uint8Array(tiles.reduce((sum, tile) => sum + tile.length, 0));
+  let offset = 0;
+  for (const tile of tiles) {
+    data.set(tile, offset);
+    offset += tile.length;
+  }
+  return data;
+}
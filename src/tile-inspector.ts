@@ -0,0 +1,215 @@
+/**
+ * Tile inspector for debugging
+ *
+ * Regenerates a tile layer by layer, bypassing the tile caches, and reports
+ * what went into it: the SQL each generator ran, DuckDB's EXPLAIN ANALYZE
+ * output for that query, whether an RTREE index scan was used, and the
+ * decoded MVT. Makes the native generator's output as inspectable as the
+ * client-side ones.
+ */
+
+import type { AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import { VectorTile } from '@mapbox/vector-tile';
+import Pbf from 'pbf';
+import { acquireConnection, releaseConnection, executeWithConnection } from './duckdb';
+import { getTileSourceLayers } from './duckdb-protocol';
+import type { TileCoordinates } from './tile-generation-native';
+import { escapeHtml } from './escaping';
+
+export interface MVTLayerStats {
+  name: string;
+  extent: number;
+  features: number;
+  geometryTypes: { point: number; line: number; polygon: number; unknown: number };
+  propertyKeys: string[];
+  vertices: number;
+}
+
+export interface LayerInspection {
+  layerName: string;
+  tableName: string;
+  generator: string;        // Label of the layer's generator
+  sql: string | null;       // null if the generator doesn't expose its query
+  explain: string | null;   // EXPLAIN ANALYZE output of sql
+  rtreeIndexes: string[];   // RTREE indexes on the layer's table
+  rtreeUsed: boolean | null;  // Whether the plan scans an RTREE index (null without a plan)
+  generateTime: number;
+  byteSize: number;
+  mvt: MVTLayerStats[];     // Decoded layer (none for an empty tile)
+  error?: string;
+}
+
+export interface TileInspection {
+  configId: string;
+  zxy: TileCoordinates;
+  byteSize: number;
+  layers: LayerInspection[];
+}
+
+/**
+ * Regenerate and inspect a tile of a layer or layer group
+ */
+export async function inspectTile(configId: string, zxy: TileCoordinates): Promise<TileInspection> {
+  const sourceLayers = getTileSourceLayers(configId);
+  if (!sourceLayers) {
+    throw new Error(`No configuration found for: ${configId}`);
+  }
+
+  const conn = await acquireConnection();
+  try {
+    const layers: LayerInspection[] = [];
+
+    for (const { config, generator } of sourceLayers) {
+      const inspection: LayerInspection = {
+        layerName: config.layerName ?? 'v',
+        tableName: config.tableName,
+        generator: generator.label,
+        sql: null,
+        explain: null,
+        rtreeIndexes: [],
+        rtreeUsed: null,
+        generateTime: 0,
+        byteSize: 0,
+        mvt: []
+      };
+      layers.push(inspection);
+
+      try {
+        const startTime = performance.now();
+        const { data } = await generator.generate(conn, config, zxy);
+        inspection.generateTime = performance.now() - startTime;
+        inspection.byteSize = data.length;
+        inspection.mvt = decodeTileStats(data);
+
+        inspection.rtreeIndexes = await getRTreeIndexes(conn, config.tableName, config.schema);
+        inspection.sql = await generator.buildQuery?.(config, zxy) ?? null;
+        if (inspection.sql) {
+          inspection.explain = await explainAnalyze(conn, inspection.sql);
+          inspection.rtreeUsed = /RTREE_INDEX_SCAN/i.test(inspection.explain);
+        }
+      } catch (error) {
+        inspection.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return {
+      configId,
+      zxy,
+      byteSize: layers.reduce((sum, layer) => sum + layer.byteSize, 0),
+      layers
+    };
+  } finally {
+    releaseConnection(conn);
+  }
+}
+
+/**
+ * Decode an encoded tile into per-layer statistics
+ */
+export function decodeTileStats(data: Uint8Array): MVTLayerStats[] {
+  if (data.length === 0) {
+    return [];
+  }
+
+  const tile = new VectorTile(new Pbf(data));
+  return Object.entries(tile.layers).map(([name, layer]) => {
+    const stats: MVTLayerStats = {
+      name,
+      extent: layer.extent,
+      features: layer.length,
+      geometryTypes: { point: 0, line: 0, polygon: 0, unknown: 0 },
+      propertyKeys: [],
+      vertices: 0
+    };
+    const keys = new Set<string>();
+
+    for (let i = 0; i < layer.length; i++) {
+      const feature = layer.feature(i);
+      const type = (['unknown', 'point', 'line', 'polygon'] as const)[feature.type];
+      stats.geometryTypes[type]++;
+      for (const key of Object.keys(feature.properties)) {
+        keys.add(key);
+      }
+      for (const ring of feature.loadGeometry()) {
+        stats.vertices += ring.length;
+      }
+    }
+
+    stats.propertyKeys = Array.from(keys).sort();
+    return stats;
+  });
+}
+
+/**
+ * HTML for the inspector panel
+ */
+export function renderTileInspection(inspection: TileInspection): string {
+  const { z, x, y } = inspection.zxy;
+  const layers = inspection.layers.map(layer => {
+    const rtree = layer.rtreeUsed === null
+      ? 'unknown (no query plan)'
+      : layer.rtreeUsed
+        ? `✅ used (${layer.rtreeIndexes.join(', ')})`
+        : layer.rtreeIndexes.length > 0
+          ? `❌ not used (index ${layer.rtreeIndexes.join(', ')} exists)`
+          : '❌ not used (no RTREE index)';
+
+    const mvtRows = layer.mvt
+      .map(stats => `<tr>
+          <td style="text-align: left;">${escapeHtml(stats.name)}</td>
+          <td>${stats.features}</td>
+          <td>${stats.geometryTypes.point}/${stats.geometryTypes.line}/${stats.geometryTypes.polygon}</td>
+          <td>${stats.vertices}</td>
+        </tr>
+        <tr><td colspan="4" style="text-align: left; color: #888;">Keys: ${escapeHtml(stats.propertyKeys.join(', ') || '-')} (extent ${stats.extent})</td></tr>`)
+      .join('');
+
+    return `<div style="margin-bottom: 12px; padding: 6px; background: rgba(255,255,255,0.05); border-radius: 3px;">
+      <div><strong>${escapeHtml(layer.tableName)}</strong> → layer "${escapeHtml(layer.layerName)}" · ${escapeHtml(layer.generator)}</div>
+      <div>Generated in ${layer.generateTime.toFixed(2)}ms · ${(layer.byteSize / 1024).toFixed(2)}KB</div>
+      <div>RTREE: ${rtree}</div>
+      ${layer.error ? `<div style="color: #ef4444;">${escapeHtml(layer.error)}</div>` : ''}
+      ${mvtRows
+        ? `<table style="width: 100%; text-align: right; margin: 4px 0;">
+            <tr><th style="text-align: left;">Layer</th><th>Features</th><th>Pt/Ln/Poly</th><th>Vertices</th></tr>
+            ${mvtRows}
+          </table>`
+        : '<div style="color: #888;">Empty tile</div>'}
+      ${layer.sql ? renderCode('SQL', layer.sql) : ''}
+      ${layer.explain ? renderCode('EXPLAIN ANALYZE', layer.explain) : ''}
+    </div>`;
+  }).join('');
+
+  return `<div style="margin-bottom: 8px;"><strong>${z}/${x}/${y}</strong> · ${escapeHtml(inspection.configId)} · ${(inspection.byteSize / 1024).toFixed(2)}KB</div>${layers}`;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function explainAnalyze(conn: AsyncDuckDBConnection, sql: string): Promise<string> {
+  const rows = await executeWithConnection(conn, `EXPLAIN ANALYZE ${sql}`);
+  return rows.map(row => String(row.explain_value)).join('\n');
+}
+
+async function getRTreeIndexes(
+  conn: AsyncDuckDBConnection,
+  tableName: string,
+  schema?: string
+): Promise<string[]> {
+  const rows = await executeWithConnection(conn, `
+    SELECT index_name
+    FROM duckdb_indexes()
+    WHERE table_name = '${tableName.replace(/'/g, "''")}'
+      ${schema ? `AND schema_name = '${schema.replace(/'/g, "''")}'` : ''}
+      AND sql ILIKE '%USING RTREE%'
+  `);
+  return rows.map(row => String(row.index_name));
+}
+
+function renderCode(title: string, code: string): string {
+  return `<details style="margin-top: 4px;">
+    <summary>${title}</summary>
+    <pre style="max-height: 200px; overflow: auto; font-size: 11px; white-space: pre; background: rgba(0,0,0,0.2); padding: 4px;">${escapeHtml(code)}</pre>
+  </details>`;
+}
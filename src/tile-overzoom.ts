@@ -0,0 +1,256 @@
+/**
+ * Overzooming of cached tiles
+ *
+ * Beyond a layer's maxDataZoom, tiles are cut out of their ancestor tile at
+ * maxDataZoom instead of being queried from DuckDB: the ancestor is decoded,
+ * every feature is scaled up and clipped to the requested tile plus a
+ * buffer, and the result is encoded again. Attributes and feature ids are
+ * kept as they are.
+ */
+
+import { VectorTile } from '@mapbox/vector-tile';
+import Pbf from 'pbf';
+import vtpbf from 'vt-pbf';
+import { concatenateTiles } from './tile-generators';
+import type { TileCoordinates } from './tile-generation-native';
+
+// Buffer kept around the tile, in units of a 4096 extent (as in ST_AsMVTGeom)
+const CLIP_BUFFER = 256;
+
+type Coordinate = [number, number];
+
+interface ClipBox {
+  min: number;
+  max: number;
+}
+
+/**
+ * Get the ancestor of a tile at a lower zoom level
+ */
+export function getAncestorTile(zxy: TileCoordinates, z: number): TileCoordinates {
+  const dz = zxy.z - z;
+  return { z, x: zxy.x >> dz, y: zxy.y >> dz };
+}
+
+/**
+ * Cut a descendant tile out of an encoded ancestor tile
+ *
+ * @param data - Encoded ancestor tile
+ * @param ancestor - Coordinates of the ancestor tile
+ * @param zxy - Coordinates of the tile to derive
+ * @returns The encoded tile, empty if no feature intersects it
+ */
+export function overzoomTile(
+  data: Uint8Array,
+  ancestor: TileCoordinates,
+  zxy: TileCoordinates
+): Uint8Array {
+  if (data.length === 0) {
+    return new Uint8Array();
+  }
+
+  const tile = new VectorTile(new Pbf(data));
+  const scale = 2 ** (zxy.z - ancestor.z);
+  const encodedLayers: Uint8Array[] = [];
+
+  for (const [name, layer] of Object.entries(tile.layers)) {
+    const extent = layer.extent;
+    // Position of the tile within its ancestor, in scaled-up units
+    const offsetX = (zxy.x - ancestor.x * scale) * extent;
+    const offsetY = (zxy.y - ancestor.y * scale) * extent;
+    const buffer = (CLIP_BUFFER * extent) / 4096;
+    const box: ClipBox = { min: -buffer, max: extent + buffer };
+
+    const features = [];
+    for (let i = 0; i < layer.length; i++) {
+      const feature = layer.feature(i);
+      const rings = feature.loadGeometry().map(ring =>
+        ring.map((p): Coordinate => [p.x * scale - offsetX, p.y * scale - offsetY])
+      );
+
+      let geometry: Coordinate[] | Coordinate[][];
+      if (feature.type === 1) {
+        geometry = rings.flat().filter(([x, y]) => inBox(x, box) && inBox(y, box));
+      } else if (feature.type === 2) {
+        geometry = rings.flatMap(line => clipLine(line, box));
+      } else if (feature.type === 3) {
+        geometry = clipPolygonRings(rings, box);
+      } else {
+        continue;
+      }
+
+      if (geometry.length === 0) continue;
+
+      features.push({
+        type: feature.type,
+        geometry: roundGeometry(geometry),
+        tags: feature.properties,
+        id: feature.id
+      });
+    }
+
+    if (features.length > 0) {
+      encodedLayers.push(vtpbf.fromGeojsonVt({ [name]: { features } }, { version: 2, extent }));
+    }
+  }
+
+  return concatenateTiles(encodedLayers);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function inBox(value: number, box: ClipBox): boolean {
+  return value >= box.min && value <= box.max;
+}
+
+/**
+ * Clip a line to the box, splitting it where it leaves and re-enters
+ */
+function clipLine(line: Coordinate[], box: ClipBox): Coordinate[][] {
+  const parts: Coordinate[][] = [];
+  let current: Coordinate[] = [];
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const segment = clipSegment(line[i], line[i + 1], box);
+    if (!segment) {
+      if (current.length > 1) parts.push(current);
+      current = [];
+      continue;
+    }
+
+    const [start, end] = segment;
+    const last = current[current.length - 1];
+    if (!last || last[0] !== start[0] || last[1] !== start[1]) {
+      if (current.length > 1) parts.push(current);
+      current = [start];
+    }
+    current.push(end);
+  }
+
+  if (current.length > 1) parts.push(current);
+  return parts;
+}
+
+/**
+ * Liang-Barsky clipping of a segment to the box
+ */
+function clipSegment(a: Coordinate, b: Coordinate, box: ClipBox): [Coordinate, Coordinate] | null {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t0 = 0;
+  let t1 = 1;
+
+  const edges: [number, number][] = [
+    [-dx, a[0] - box.min],
+    [dx, box.max - a[0]],
+    [-dy, a[1] - box.min],
+    [dy, box.max - a[1]]
+  ];
+
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return null;
+      t0 = Math.max(t0, t);
+    } else {
+      if (t < t0) return null;
+      t1 = Math.min(t1, t);
+    }
+  }
+
+  return [
+    t0 === 0 ? a : [a[0] + t0 * dx, a[1] + t0 * dy],
+    t1 === 1 ? b : [a[0] + t1 * dx, a[1] + t1 * dy]
+  ];
+}
+
+/**
+ * Clip the rings of a polygon feature, dropping holes of clipped-away exteriors
+ *
+ * Exterior rings are recognized by having the same winding as the first ring.
+ */
+function clipPolygonRings(rings: Coordinate[][], box: ClipBox): Coordinate[][] {
+  const result: Coordinate[][] = [];
+  const exteriorSign = Math.sign(signedArea(rings[0] ?? []));
+  let keepHoles = false;
+
+  for (const ring of rings) {
+    const isExterior = Math.sign(signedArea(ring)) === exteriorSign;
+    if (!isExterior && !keepHoles) continue;
+
+    const clipped = clipRing(ring, box);
+    if (clipped.length >= 4 && signedArea(clipped) !== 0) {
+      result.push(clipped);
+      if (isExterior) keepHoles = true;
+    } else if (isExterior) {
+      keepHoles = false;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sutherland-Hodgman clipping of a closed ring to the box
+ */
+function clipRing(ring: Coordinate[], box: ClipBox): Coordinate[] {
+  let points = ring;
+
+  // Clip against each edge: axis (0 = x, 1 = y) and side
+  for (const [axis, bound, keepAbove] of [
+    [0, box.min, true], [0, box.max, false], [1, box.min, true], [1, box.max, false]
+  ] as [0 | 1, number, boolean][]) {
+    const inside = (p: Coordinate) => keepAbove ? p[axis] >= bound : p[axis] <= bound;
+    const output: Coordinate[] = [];
+
+    for (let i = 0; i < points.length; i++) {
+      const current = points[i];
+      const previous = points[(i + points.length - 1) % points.length];
+
+      if (inside(current)) {
+        if (!inside(previous)) output.push(intersect(previous, current, axis, bound));
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersect(previous, current, axis, bound));
+      }
+    }
+
+    points = output;
+    if (points.length === 0) return [];
+  }
+
+  // Close the ring again
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    points.push(first);
+  }
+  return points;
+}
+
+function intersect(a: Coordinate, b: Coordinate, axis: 0 | 1, bound: number): Coordinate {
+  const t = (bound - a[axis]) / (b[axis] - a[axis]);
+  return axis === 0
+    ? [bound, a[1] + t * (b[1] - a[1])]
+    : [a[0] + t * (b[0] - a[0]), bound];
+}
+
+function signedArea(ring: Coordinate[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[i][1] + ring[j][1]);
+  }
+  return sum;
+}
+
+function roundGeometry(geometry: Coordinate[] | Coordinate[][]): Coordinate[] | Coordinate[][] {
+  return typeof geometry[0][0] === 'number'
+    ? (geometry as Coordinate[]).map(([x, y]) => [Math.round(x), Math.round(y)])
+    : (geometry as Coordinate[][]).map(ring => ring.map(([x, y]): Coordinate => [Math.round(x), Math.round(y)]));
+}
@@ -0,0 +1,150 @@
+/**
+ * Tile pyramid traversal for exporting a layer's tiles
+ *
+ * Walks every tile covering a bbox over a zoom range and generates it with
+ * the native ST_AsMVT method. Empty tiles are skipped; a failed tile aborts
+ * the walk, so exports never have silent holes.
+ */
+
+import { acquireConnection, releaseConnection } from './duckdb';
+import { getLayerBounds } from './map-layers';
+import { generateMVTNativeOrThrow } from './tile-generation-native';
+import type { DuckDBLayerConfig } from './duckdb-protocol';
+import type { TileCoordinates, LayerConfig } from './tile-generation-native';
+
+// Latitude limit of Web Mercator
+const MAX_LATITUDE = 85.0511287798066;
+
+export type BBox = [number, number, number, number];  // [minLng, minLat, maxLng, maxLat]
+
+export interface TilePyramidOptions {
+  minZoom: number;
+  maxZoom: number;
+  bbox?: BBox;  // Defaults to the bounds of the layer's geometry column
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Get the tile containing a WGS84 coordinate
+ */
+export function lngLatToTile(lng: number, lat: number, z: number): { x: number; y: number } {
+  const n = 1 << z;
+  const clampedLat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const latRad = (clampedLat * Math.PI) / 180;
+
+  const x = Math.floor(((lng + 180) / 360) * n);
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n);
+
+  return {
+    x: Math.max(0, Math.min(n - 1, x)),
+    y: Math.max(0, Math.min(n - 1, y))
+  };
+}
+
+/**
+ * Get the WGS84 bounds of a tile
+ */
+export function getTileBounds(z: number, x: number, y: number): BBox {
+  const n = 1 << z;
+  const tileLat = (ty: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * ty) / n))) * 180) / Math.PI;
+  return [(x / n) * 360 - 180, tileLat(y + 1), ((x + 1) / n) * 360 - 180, tileLat(y)];
+}
+
+/**
+ * Get the range of tiles covering a bbox at a zoom level (inclusive)
+ */
+export function getTileRange(
+  bbox: BBox,
+  z: number
+): { minX: number; minY: number; maxX: number; maxY: number } {
+  // North-west corner has the smallest y
+  const topLeft = lngLatToTile(bbox[0], bbox[3], z);
+  const bottomRight = lngLatToTile(bbox[2], bbox[1], z);
+
+  return {
+    minX: topLeft.x,
+    minY: topLeft.y,
+    maxX: bottomRight.x,
+    maxY: bottomRight.y
+  };
+}
+
+/**
+ * Generate every non-empty tile of a layer in a zoom range
+ *
+ * @param config - Registered layer configuration
+ * @param options - Zoom range, optional bbox and progress callback
+ * @param visit - Called with each non-empty tile, in z/x/y order
+ * @returns The bbox that was walked and tile counts
+ */
+export async function walkTilePyramid(
+  config: DuckDBLayerConfig,
+  options: TilePyramidOptions,
+  visit: (zxy: TileCoordinates, data: Uint8Array) => void | Promise<void>
+): Promise<{ bbox: BBox; requestedTiles: number; nonEmptyTiles: number }> {
+  const { minZoom, maxZoom, onProgress } = options;
+
+  if (minZoom < 0 || maxZoom < minZoom) {
+    throw new Error(`Invalid zoom range: ${minZoom}-${maxZoom}`);
+  }
+
+  const bbox = options.bbox ?? await getLayerBounds(config.tableName, config.geometryColumn, config.sourceCrs);
+  if (!bbox) {
+    throw new Error(`Could not determine bounds of table: ${config.tableName}`);
+  }
+
+  // Count tiles up front for progress reporting
+  const ranges = [];
+  let total = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = getTileRange(bbox, z);
+    ranges.push({ z, ...range });
+    total += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+  }
+
+  const conn = await acquireConnection();
+
+  const layerConfig: LayerConfig = {
+    tableName: config.tableName,
+    geometryColumn: config.geometryColumn,
+    propertyColumns: config.propertyColumns,
+    schema: config.schema,
+    sourceCrs: config.sourceCrs,
+    mercatorGeometryColumn: config.mercatorGeometryColumn,
+    filter: config.filter,
+    idColumn: config.idColumn,
+    cluster: config.cluster,
+    grid: config.grid
+  };
+
+  let done = 0;
+  let nonEmptyTiles = 0;
+
+  try {
+    for (const { z, minX, minY, maxX, maxY } of ranges) {
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          const zxy = { z, x, y };
+          let result;
+          try {
+            result = await generateMVTNativeOrThrow(conn, layerConfig, zxy);
+          } catch (error) {
+            throw new Error(`Failed to generate tile ${z}/${x}/${y}: ${error instanceof Error ? error.message : error}`);
+          }
+
+          if (result.data.length > 0) {
+            nonEmptyTiles++;
+            await visit(zxy, result.data);
+          }
+
+          done++;
+          onProgress?.(done, total);
+        }
+      }
+    }
+  } finally {
+    releaseConnection(conn);
+  }
+
+  return { bbox, requestedTiles: total, nonEmptyTiles };
+}
@@ -0,0 +1,152 @@
+/**
+ * TileJSON metadata for duckdb:// sources
+ *
+ * The protocol answers duckdb://{configId}/tilejson.json with a TileJSON 3.0
+ * document built from the layer configuration and the table itself, so
+ * MapLibre sources can be added by `url` and style editors can discover the
+ * source-layers and their fields.
+ *
+ * Spec: https://github.com/mapbox/tilejson-spec/tree/master/3.0.0
+ */
+
+import { executeSql } from './duckdb';
+import { DEFAULT_CRS, transformSql } from './crs';
+import { resolvePropertyColumns, getVectorLayerFieldType } from './property-encoding';
+import { getClusterPropertyColumns } from './clustering';
+import { getGridPropertyColumns } from './grid-aggregation';
+import type { PropertyColumn } from './property-encoding';
+import type { LayerConfig } from './tile-generation-geojson';
+
+export const TILEJSON_MIN_ZOOM = 0;
+export const TILEJSON_MAX_ZOOM = 22;
+
+// Web Mercator world bounds, used when a table has no geometries
+const WORLD_BOUNDS: [number, number, number, number] = [-180, -85.0511287798066, 180, 85.0511287798066];
+
+export interface VectorLayer {
+  id: string;
+  fields: Record<string, 'Number' | 'Boolean' | 'String'>;
+  minzoom: number;
+  maxzoom: number;
+  description?: string;
+}
+
+export interface TileJSON {
+  tilejson: '3.0.0';
+  name: string;
+  scheme: 'xyz';
+  tiles: string[];
+  minzoom: number;
+  maxzoom: number;
+  bounds: [number, number, number, number];
+  center: [number, number, number];
+  vector_layers: VectorLayer[];
+}
+
+/**
+ * URL of the TileJSON document of a layer or layer group
+ */
+export function getTileJSONUrl(configId: string): string {
+  return `duckdb://${configId}/tilejson.json`;
+}
+
+/**
+ * Build the TileJSON document of a layer or layer group
+ *
+ * @param configId - Id the layer or group was registered with
+ * @param layerConfigs - The layers making up its tiles
+ */
+export async function buildTileJSON(configId: string, layerConfigs: LayerConfig[]): Promise<TileJSON> {
+  const vectorLayers: VectorLayer[] = [];
+  let bounds: [number, number, number, number] | null = null;
+
+  for (const config of layerConfigs) {
+    const fields = await getLayerFields(config);
+    vectorLayers.push({
+      id: config.layerName ?? 'v',
+      fields: Object.fromEntries(fields.map(col => [col.name, getVectorLayerFieldType(col.kind)])),
+      minzoom: TILEJSON_MIN_ZOOM,
+      maxzoom: TILEJSON_MAX_ZOOM,
+      description: config.tableName
+    });
+
+    const layerBounds = await getExtent(config);
+    if (layerBounds) {
+      bounds = bounds
+        ? [
+            Math.min(bounds[0], layerBounds[0]),
+            Math.min(bounds[1], layerBounds[1]),
+            Math.max(bounds[2], layerBounds[2]),
+            Math.max(bounds[3], layerBounds[3])
+          ]
+        : layerBounds;
+    }
+  }
+
+  const [minX, minY, maxX, maxY] = bounds ?? WORLD_BOUNDS;
+  // Lowest zoom at which the whole extent fits in about one tile
+  const span = Math.max(maxX - minX, maxY - minY);
+  const centerZoom = span > 0
+    ? Math.max(TILEJSON_MIN_ZOOM, Math.min(TILEJSON_MAX_ZOOM, Math.floor(Math.log2(360 / span))))
+    : TILEJSON_MAX_ZOOM;
+
+  return {
+    tilejson: '3.0.0',
+    name: configId,
+    scheme: 'xyz',
+    tiles: [`duckdb://${configId}/{z}/{x}/{y}.pbf`],
+    minzoom: TILEJSON_MIN_ZOOM,
+    maxzoom: TILEJSON_MAX_ZOOM,
+    bounds: [minX, minY, maxX, maxY],
+    center: [(minX + maxX) / 2, (minY + maxY) / 2, centerZoom],
+    vector_layers: vectorLayers
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Properties a layer's features can carry, including those of cluster features
+ */
+async function getLayerFields(config: LayerConfig): Promise<PropertyColumn[]> {
+  if (config.grid) {
+    return getGridPropertyColumns(config.grid);
+  }
+
+  const properties = await resolvePropertyColumns(config, config.propertyColumns);
+  return config.cluster
+    ? [...properties, ...getClusterPropertyColumns(config.cluster)]
+    : properties;
+}
+
+/**
+ * WGS84 extent of the (filtered) features of a layer, or null if it has none
+ */
+async function getExtent(config: LayerConfig): Promise<[number, number, number, number] | null> {
+  const { tableName, geometryColumn, schema } = config;
+  const fullTableName = schema ? `"${schema}"."${tableName}"` : `"${tableName}"`;
+  const extent = transformSql(`ST_Extent_Agg("${geometryColumn}")`, config.sourceCrs ?? DEFAULT_CRS, DEFAULT_CRS);
+
+  const rows = await executeSql(`
+    SELECT
+      ST_XMin(bounds) AS min_x,
+      ST_YMin(bounds) AS min_y,
+      ST_XMax(bounds) AS max_x,
+      ST_YMax(bounds) AS max_y
+    FROM (
+      SELECT ${extent} AS bounds
+      FROM ${fullTableName}
+      WHERE "${geometryColumn}" IS NOT NULL${config.filter ? `
+        AND (${config.filter})` : ''}
+    )
+    WHERE bounds IS NOT NULL
+  `);
+
+  if (rows.length === 0 || rows[0].min_x === null) {
+    return null;
+  }
+  const row = rows[0];
+  return [row.min_x, row.min_y, row.max_x, row.max_y];
+}
@@ -1,4 +1,7 @@
 declare module 'vt-pbf' {
-  export function fromGeojsonVt(tiles: { [layerName: string]: any }): Uint8Array;
+  export function fromGeojsonVt(
+    tiles: { [layerName: string]: any },
+    options?: { version?: number; extent?: number }
+  ): Uint8Array;
   export function fromVectorTileJs(tile: any): Uint8Array;
 }
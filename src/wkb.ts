@@ -0,0 +1,169 @@
+/**
+ * WKB decoding into tile coordinates
+ *
+ * Decodes (ISO or extended) well-known binary as returned by ST_AsWKB and
+ * maps every coordinate straight into integer tile space, so no
+ * intermediate geometry objects are built. Z and M values are skipped, and
+ * points that round onto their predecessor are dropped.
+ */
+
+const WKB_POINT = 1;
+const WKB_LINESTRING = 2;
+const WKB_POLYGON = 3;
+const WKB_MULTIPOINT = 4;
+const WKB_MULTILINESTRING = 5;
+const WKB_MULTIPOLYGON = 6;
+const WKB_GEOMETRYCOLLECTION = 7;
+
+// Extended WKB (PostGIS) flags
+const EWKB_Z = 0x80000000;
+const EWKB_M = 0x40000000;
+const EWKB_SRID = 0x20000000;
+
+/**
+ * Affine mapping from source coordinates to tile coordinates (y pointing down)
+ */
+export interface TileTransform {
+  originX: number;  // Source x of the tile's left edge
+  originY: number;  // Source y of the tile's top edge
+  scale: number;    // Tile units per source unit
+}
+
+/**
+ * Geometry in integer tile coordinates, grouped by MVT geometry type
+ *
+ * Coordinates are flat [x0, y0, x1, y1, ...] arrays. Polygon rings are
+ * closed, exterior ring first, in whatever winding the source used.
+ */
+export interface TileGeometry {
+  points: number[];
+  lines: number[][];
+  polygons: number[][][];
+}
+
+/**
+ * Decode a WKB geometry into tile coordinates
+ */
+export function decodeWkb(wkb: Uint8Array, transform: TileTransform): TileGeometry {
+  const reader = new WkbReader(wkb, transform);
+  const geometry: TileGeometry = { points: [], lines: [], polygons: [] };
+  reader.readGeometry(geometry);
+  return geometry;
+}
+
+export function isEmptyTileGeometry(geometry: TileGeometry): boolean {
+  return geometry.points.length === 0 && geometry.lines.length === 0 && geometry.polygons.length === 0;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+class WkbReader {
+  private view: DataView;
+  private offset = 0;
+  private littleEndian = true;
+  private transform: TileTransform;
+
+  constructor(wkb: Uint8Array, transform: TileTransform) {
+    this.view = new DataView(wkb.buffer, wkb.byteOffset, wkb.byteLength);
+    this.transform = transform;
+  }
+
+  readGeometry(target: TileGeometry): void {
+    this.littleEndian = this.view.getUint8(this.offset) === 1;
+    this.offset += 1;
+
+    const rawType = this.readUint32();
+    let type = rawType & 0xffff;
+    let dimensions = 2;
+
+    if (rawType & (EWKB_Z | EWKB_M | EWKB_SRID)) {
+      if (rawType & EWKB_Z) dimensions++;
+      if (rawType & EWKB_M) dimensions++;
+      if (rawType & EWKB_SRID) this.offset += 4;
+    } else if (type > 1000) {
+      // ISO: 1000 + type for Z, 2000 + type for M, 3000 + type for ZM
+      dimensions += type >= 3000 ? 2 : 1;
+      type %= 1000;
+    }
+
+    switch (type) {
+      case WKB_POINT: {
+        const point = this.readPoints(1, dimensions, false);
+        // An empty point is encoded with NaN coordinates
+        if (point.length > 0 && !Number.isNaN(point[0])) {
+          target.points.push(...point);
+        }
+        break;
+      }
+      case WKB_LINESTRING: {
+        const line = this.readPoints(this.readUint32(), dimensions, true);
+        if (line.length >= 4) target.lines.push(line);
+        break;
+      }
+      case WKB_POLYGON: {
+        const ringCount = this.readUint32();
+        const rings: number[][] = [];
+        for (let i = 0; i < ringCount; i++) {
+          const ring = this.readPoints(this.readUint32(), dimensions, true);
+          // Drop rings that collapsed to fewer than three distinct points
+          if (ring.length >= 8) {
+            rings.push(ring);
+          } else if (i === 0) {
+            // Without its exterior ring the polygon is gone, but its bytes must still be read
+            rings.length = 0;
+            for (let j = 1; j < ringCount; j++) {
+              this.readPoints(this.readUint32(), dimensions, false);
+            }
+            break;
+          }
+        }
+        if (rings.length > 0) target.polygons.push(rings);
+        break;
+      }
+      case WKB_MULTIPOINT:
+      case WKB_MULTILINESTRING:
+      case WKB_MULTIPOLYGON:
+      case WKB_GEOMETRYCOLLECTION: {
+        const count = this.readUint32();
+        for (let i = 0; i < count; i++) {
+          this.readGeometry(target);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unsupported WKB geometry type: ${rawType}`);
+    }
+  }
+
+  private readUint32(): number {
+    const value = this.view.getUint32(this.offset, this.littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  /**
+   * Read a coordinate sequence into flat tile coordinates
+   */
+  private readPoints(count: number, dimensions: number, dropRepeated: boolean): number[] {
+    const { originX, originY, scale } = this.transform;
+    const coords: number[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const x = this.view.getFloat64(this.offset, this.littleEndian);
+      const y = this.view.getFloat64(this.offset + 8, this.littleEndian);
+      this.offset += dimensions * 8;
+
+      const tx = Math.round((x - originX) * scale);
+      const ty = Math.round((originY - y) * scale);
+      const n = coords.length;
+      if (dropRepeated && n > 0 && coords[n - 2] === tx && coords[n - 1] === ty) {
+        continue;
+      }
+      coords.push(tx, ty);
+    }
+
+    return coords;
+  }
+}